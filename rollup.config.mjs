@@ -1,6 +1,25 @@
 import typescript from '@rollup/plugin-typescript';
 import dts from 'rollup-plugin-dts';
 import terser from '@rollup/plugin-terser';
+import path from 'node:path';
+
+// The main entry and the types it re-exports
+const CORE_MODULES = [path.resolve('src/index'), path.resolve('src/types')];
+
+/**
+ * Resolve imports of the main entry to the package itself, so entries built on the
+ * engine share one copy of it with the app (and instanceof holds across them)
+ */
+function importCoreFromPackage() {
+  return {
+    name: 'import-core-from-package',
+    resolveId(source, importer) {
+      if (!importer || !source.startsWith('.')) return null;
+      const target = path.resolve(path.dirname(importer), source).replace(/\.(js|ts)$/, '');
+      return CORE_MODULES.includes(target) ? { id: 'voice-orb-visualizer', external: true } : null;
+    }
+  };
+}
 
 export default [
   // JavaScript builds
@@ -31,6 +50,74 @@ export default [
       })
     ]
   },
+  // <voice-orb> custom element, registered on load
+  {
+    input: 'src/element.ts',
+    output: {
+      file: 'dist/voice-orb-element.mjs',
+      format: 'es',
+      sourcemap: true
+    },
+    plugins: [
+      importCoreFromPackage(),
+      typescript({
+        tsconfig: './tsconfig.json'
+      })
+    ]
+  },
+  // A script tag can't share modules, so the IIFE element carries its own engine
+  {
+    input: 'src/element.ts',
+    output: {
+      file: 'dist/voice-orb-element.iife.js',
+      format: 'iife',
+      name: 'VoiceOrbElement',
+      sourcemap: true,
+      plugins: [terser()]
+    },
+    plugins: [
+      typescript({
+        tsconfig: './tsconfig.json'
+      })
+    ]
+  },
+  // Render worker for the offscreen option, loaded next to the main bundle
+  {
+    input: 'src/worker.ts',
+    output: {
+      file: 'dist/voice-orb-worker.mjs',
+      format: 'es',
+      sourcemap: true
+    },
+    plugins: [
+      typescript({
+        tsconfig: './tsconfig.json'
+      })
+    ]
+  },
+  // Framework bindings; the frameworks themselves are peer dependencies
+  ...['react', 'vue'].map(framework => ({
+    input: `src/${framework}.ts`,
+    external: [framework],
+    output: [
+      {
+        file: `dist/voice-orb-${framework}.mjs`,
+        format: 'es',
+        sourcemap: true
+      },
+      {
+        file: `dist/voice-orb-${framework}.cjs`,
+        format: 'cjs',
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      importCoreFromPackage(),
+      typescript({
+        tsconfig: './tsconfig.json'
+      })
+    ]
+  })),
   // Type definitions
   {
     input: 'src/index.ts',
@@ -39,5 +126,22 @@ export default [
       format: 'es'
     },
     plugins: [dts()]
-  }
+  },
+  {
+    input: 'src/element.ts',
+    output: {
+      file: 'dist/voice-orb-element.d.ts',
+      format: 'es'
+    },
+    plugins: [importCoreFromPackage(), dts()]
+  },
+  ...['react', 'vue'].map(framework => ({
+    input: `src/${framework}.ts`,
+    external: [framework],
+    output: {
+      file: `dist/voice-orb-${framework}.d.ts`,
+      format: 'es'
+    },
+    plugins: [importCoreFromPackage(), dts()]
+  }))
 ];
\ No newline at end of file
@@ -1,37 +1,93 @@
-import { VoiceOrbOptions, AudioMode, BlobPoint, CalibrationData } from '../types.js';
+import { VoiceOrbOptions, AudioMode, CalibrationData, ThemePalette, GradientStop, VoiceOrbEvents, VolumeTier, ConversationState, PcmFormat, PlaybackController, ReplayController, ReplayOptions, OrbRecording, MicrophoneConstraints, ExternalAudioSource, AttachSourceOptions, LoudnessReading, PitchReading } from '../types.js';
 import { AudioPipeline } from './audio-pipeline.js';
-import { ForceSystem } from './forces.js';
-import { getCanvas, clamp, easeOutCubic } from './utils.js';
+import { SpectralBandConfig } from './spectrum.js';
+import { Renderer, RenderOptions, OrbRenderer } from './renderer.js';
+import { OffscreenRenderer, hasRenderWorker, supportsOffscreenRendering } from './offscreen.js';
+import { ThemeManager } from './themes.js';
+import { QualityGovernor } from './quality.js';
+import { EventEmitter } from './events.js';
+import { VadConfig } from './vad.js';
+import { CalibrationConfig } from './calibration.js';
+import { NoiseFloorConfig } from './noise-floor.js';
+import { LoudnessConfig } from './loudness.js';
+import { normalizePitch } from './pitch.js';
+import { ConversationStateMachine } from './states.js';
+import { SessionRecorder, SessionPlayer, decodeRecording } from './recording.js';
+import { ExternalSource } from './external-source.js';
+import { listAudioInputs } from './devices.js';
+import { getCanvas, clamp, easeOutCubic, watchMediaQuery, damp, timeConstantFromFactor, REFERENCE_FRAME_MS } from './utils.js';
+
+/**
+ * Shared canvas, render loop and quality governor supplied by a VoiceOrbGroup
+ * @internal
+ */
+export interface OrbHost {
+  qualityGovernor: QualityGovernor;
+  detach(orb: VoiceOrb): void;
+}
 
 /**
  * Main VoiceOrb class that manages the visual audio blob
  */
 export class VoiceOrb {
   private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
   private options: any;
   
   // Core systems
   private audioPipeline: AudioPipeline;
-  private forceSystem: ForceSystem;
+  private renderer!: Renderer;
+  private themeManager: ThemeManager;
+  private qualityGovernor: QualityGovernor;
+  private events = new EventEmitter<VoiceOrbEvents>();
+  private stateMachine: ConversationStateMachine;
+  
+  /**
+   * Assistant playback queue control
+   */
+  readonly playback: PlaybackController;
+  private duplexUserShare: number = 0;
+  
+  /**
+   * Transport for 'replay' mode
+   */
+  readonly replay: ReplayController;
+  private recorder: SessionRecorder | null = null;
+  private replayer = new SessionPlayer();
+  
+  // Host-supplied volume for 'external' mode
+  private externalSource: ExternalSource;
+  
+  // Set when a VoiceOrbGroup draws this orb into its canvas
+  private host: OrbHost | null = null;
   
   // Animation state
   private animationId: number | null = null;
+  private lastRenderTime: number = 0;
+  private isPageVisible: boolean = true;
+  private isOnScreen: boolean = true;
+  private intersectionObserver: IntersectionObserver | null = null;
+  private isDestroyed: boolean = false;
+  // Rejects pending recalibrate() promises
+  private calibrationWaiters = new Set<(error: Error) => void>();
+  private dprCap: number = 2;
   private currentMode: AudioMode = 'stopped';
-  private time: number = 0;
+  private lastFrameTime: number | null = null;
   
   // Visual state
-  private orbX: number = 0;
-  private orbY: number = 0;
-  private currentX: number = 0;
-  private currentY: number = 0;
-  private targetX: number = 0;
-  private targetY: number = 0;
   private smoothedVolume: number = 0;
   private targetVolume: number = 0;
   private lastAudioTime: number = 0;
   private fadeMultiplier: number = 1;
   private previousVolumeLevel: number = 0;
+  private volumeTier: VolumeTier = 'quiet';
+  private bandLevels: Float32Array = new Float32Array(0);
+  private pitch: PitchReading | null = null;
+  // Smoothed pitch position (-1 low to 1 high) and voicing envelope (0-1)
+  private pitchPosition: number = 0;
+  private pitchPresence: number = 0;
+  private palette!: ThemePalette;
+  private prefersReducedMotion: boolean = false;
+  private unwatchReducedMotion: (() => void) | null = null;
   
   // Default options (with proper callback handling)
   private static readonly DEFAULT_OPTIONS = {
@@ -39,28 +95,77 @@ export class VoiceOrb {
     radius: 100,
     padding: 10,
     
-    // Visual
-    color: '#2563eb',
+    // Visual (colors left unset fall back to the active theme)
+    color: undefined as string | undefined,
     fillMode: 'solid' as const,
-    gradientStops: [
-      { offset: 0, color: '#2563eb' },
-      { offset: 1, color: '#81e6d9' }
-    ],
+    gradientStops: undefined as GradientStop[] | undefined,
+    gradientType: 'radial' as const,
+    gradientAngle: 0,
+    gradientVolumeShift: 'none' as const,
+    gradientShiftAmount: 1.0,
     strokeWidth: 0,
-    strokeColor: '#ffffff',
+    strokeColor: undefined as string | undefined,
     opacity: 1,
     
     // Audio Processing
     mode: 'microphone' as const,
     fftSize: 512,
     smoothingTimeConstant: 0.8,
+    analysisWorklet: true,
+    analysisHopSize: 512,
     autoCalibration: true,
     baselineNoise: 0.02,
     sensitivity: 0.05,
     loudThreshold: 0.4,
     veryLoudThreshold: 0.7,
     adaptiveGain: 1.0,
-    volumeLerpFactor: 0.12,
+    volumeSmoothingMs: 130,
+    volumeLerpFactor: undefined as number | undefined,
+    volumeModel: 'spectral' as const,
+    loudnessAttackMs: 10,
+    loudnessReleaseMs: 150,
+    loudnessFloorDb: -60,
+    loudnessCeilingDb: 0,
+    
+    // Calibration
+    calibrationDurationMs: 1000,
+    calibrationBaselinePercentile: 0.5,
+    calibrationRangePercentile: 0.9,
+    calibrationProfile: undefined as CalibrationData | undefined,
+    
+    // Noise Tracking
+    noiseTracking: true,
+    noiseWindowMs: 3000,
+    noiseAdaptRate: 0.01,
+    noiseShiftRatio: 0.5,
+    
+    // Audio Graph
+    audioContext: undefined as AudioContext | undefined,
+    
+    // Microphone
+    deviceId: undefined as string | undefined,
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+    
+    // Streaming
+    jitterBufferMs: 80,
+    
+    // External Volume
+    externalTimeoutMs: 500,
+    externalDelayMs: 0,
+    
+    // Full Duplex
+    duplexUserColor: '#f59e0b',
+    echoSuppression: true,
+    
+    // Voice Activity Detection
+    vadEnabled: true,
+    vadOnRatio: 1.2,
+    vadOffRatio: 0.8,
+    vadHangoverMs: 300,
+    vadMinSpeechMs: 120,
+    vadMaxSpectralFlatness: undefined as number | undefined,
     
     // Motion & Shape
     pointCount: 24,
@@ -72,14 +177,42 @@ export class VoiceOrb {
     maxOffset: 50,
     fadeInMs: 300,
     fadeOutMs: 1200,
+    stateTransitionMs: 400,
+    errorColor: '#dc2626',
+    
+    // Pitch
+    pitchTracking: false,
+    pitchMinHz: 70,
+    pitchMaxHz: 500,
+    pitchSmoothingMs: 80,
+    pitchHueShift: 0,
+    pitchDrift: 0,
+    pitchSpawnAngle: false,
+    
+    // Spectral Deformation
+    deformation: 'waves' as const,
+    bandCount: undefined as number | undefined,
+    minFrequency: 80,
+    maxFrequency: 8000,
+    bandAttackMs: 24,
+    bandReleaseMs: 100,
+    spectralIntensity: 1.0,
+    spectralMirror: true,
     
     // Performance
     fpsLimit: 60,
+    pauseWhenHidden: true,
+    adaptiveQuality: true,
+    frameBudgetMs: 8,
+    offscreen: false,
+    workerUrl: undefined as string | URL | undefined,
     debug: false,
     
     // Accessibility
-    theme: 'auto' as const,
-    reducedMotion: false,
+    theme: 'auto' as string,
+    useCssVariables: true,
+    reducedMotion: 'auto' as boolean | 'auto',
+    reducedMotionStyle: 'pulse' as const,
     ariaLabel: 'Voice activity visualizer',
     
     // Callbacks
@@ -89,37 +222,169 @@ export class VoiceOrb {
     onModeChange: undefined as ((mode: string) => void) | undefined,
   };
 
-  constructor(canvasOrSelector: HTMLCanvasElement | string, options: VoiceOrbOptions = {}) {
+  // Animation time constants (ms), tuned to match the original 60 Hz per-frame factors
+  private static readonly FADE_DECAY_MS = 408;
+  private static readonly FADE_RECOVER_MS = 103;
+  private static readonly DUPLEX_BLEND_MS = 150;
+  private static readonly MAX_FRAME_MS = 100;
+
+  constructor(canvasOrSelector: HTMLCanvasElement | string, options: VoiceOrbOptions = {}, host?: OrbHost) {
     // Get canvas element
     this.canvas = getCanvas(canvasOrSelector);
-    const ctx = this.canvas.getContext('2d');
-    if (!ctx) {
-      throw new Error('Failed to get 2D context from canvas');
-    }
-    this.ctx = ctx;
     
     // Merge options with defaults
     this.options = { ...VoiceOrb.DEFAULT_OPTIONS, ...options };
+    this.host = host ?? null;
     
     // Initialize systems
     this.audioPipeline = new AudioPipeline({
       fftSize: this.options.fftSize,
       smoothingTimeConstant: this.options.smoothingTimeConstant,
+      analysisWorklet: this.options.analysisWorklet,
+      analysisHopSize: this.options.analysisHopSize,
+      bands: this.getBandConfig(),
+      vad: this.getVadConfig(),
+      onSpeechStart: (timestamp) => {
+        this.events.emit('speechstart', { timestamp });
+      },
+      onSpeechEnd: (timestamp, duration) => {
+        this.events.emit('speechend', { timestamp, duration });
+      },
+      onBargeIn: (timestamp, assistantVolume) => {
+        this.events.emit('bargein', { timestamp, assistantVolume });
+      },
+      echoSuppression: this.options.echoSuppression,
+      audioContext: this.options.audioContext,
+      microphone: this.getMicrophoneConstraints(),
+      loudness: this.getLoudnessConfig(),
+      pitchTracking: this.isPitchEnabled(),
+      pitch: { minFrequency: this.options.pitchMinHz, maxFrequency: this.options.pitchMaxHz },
+      ...this.getCalibrationSettings(),
+      noiseTracking: this.options.noiseTracking,
+      noiseFloor: this.getNoiseFloorConfig(),
+      onNoiseFloorChange: (baseline, previousBaseline) => {
+        this.events.emit('noisefloorchange', { baseline, previousBaseline, timestamp: performance.now() });
+      },
+      onMicrophoneChange: (deviceId, label, reason) => {
+        // A fallback leaves the requested device behind, so later restarts use the default too
+        if (reason !== 'switched') {
+          this.options.deviceId = undefined;
+        }
+        this.events.emit('microphonechange', { deviceId, label, reason });
+      },
+      jitterBufferMs: this.options.jitterBufferMs,
+      onUnderrun: (gapMs) => {
+        this.events.emit('underrun', { timestamp: performance.now(), gapMs });
+      },
+      onChunkEnd: (queueDepth) => {
+        this.events.emit('chunkend', { timestamp: performance.now(), queueDepth });
+      },
+      onQueueDrained: () => {
+        this.events.emit('queuedrained', { timestamp: performance.now() });
+      },
       onCalibrated: (data) => {
         this.options.onCalibrated?.(data.baseline, data.gain);
+        this.events.emit('calibrationcomplete', data);
+      },
+      onCalibrationStart: () => {
+        this.events.emit('calibrationstart', { timestamp: performance.now() });
+      },
+      onCalibrationProgress: (progress, samplesCount) => {
+        this.events.emit('calibrationprogress', { progress, samplesCount });
+      },
+      onCalibrationCancel: (reason) => {
+        const error = new Error(`Calibration cancelled: ${reason}`);
+        const waiters = Array.from(this.calibrationWaiters);
+        this.calibrationWaiters.clear();
+        waiters.forEach(reject => reject(error));
+      },
+      onPlaybackStart: () => {
+        this.events.emit('playbackstart', { timestamp: performance.now() });
+      },
+      onPlaybackEnd: () => {
+        this.events.emit('playbackend', { timestamp: performance.now() });
       },
       onError: (error) => {
         this.options.onError?.(error);
+        this.events.emit('error', error);
+      }
+    });
+    
+    this.playback = {
+      interrupt: (fadeMs = 80) => {
+        const wasPlaying = this.audioPipeline.isPlaying();
+        const discardedMs = this.audioPipeline.interruptPlayback(fadeMs);
+        // Nothing to report when there was nothing to cut off
+        if (wasPlaying || discardedMs > 0) {
+          this.events.emit('interrupted', { timestamp: performance.now(), discardedMs });
+        }
+      },
+      pause: () => this.audioPipeline.pausePlayback(),
+      resume: () => this.audioPipeline.resumePlayback(),
+      isPaused: () => this.audioPipeline.isPlaybackPaused(),
+      getQueueDepth: () => this.audioPipeline.getQueueDepth(),
+      getBufferedDuration: () => this.audioPipeline.getBufferedDuration()
+    };
+    
+    this.replay = {
+      play: () => this.replayer.play(),
+      pause: () => this.replayer.pause(),
+      isPaused: () => this.replayer.isPaused(),
+      seek: (positionMs) => this.replayer.seek(positionMs),
+      getPosition: () => this.replayer.getPosition(),
+      getDuration: () => this.replayer.getDuration(),
+      setSpeed: (speed) => this.replayer.setSpeed(speed),
+      setLoop: (loop) => this.replayer.setLoop(loop)
+    };
+    
+    this.stateMachine = new ConversationStateMachine(this.options.stateTransitionMs);
+    this.externalSource = new ExternalSource({
+      timeoutMs: this.options.externalTimeoutMs,
+      delayMs: this.options.externalDelayMs
+    });
+    
+    // Resolve theme palette and follow system color scheme
+    this.themeManager = new ThemeManager(this.canvas, (palette) => {
+      this.palette = palette;
+      this.renderer?.setPalette(palette);
+    });
+    this.themeManager.setTheme(this.options.theme, this.options.useCssVariables);
+    
+    // Follow system reduced motion preference (used when reducedMotion is 'auto')
+    const reducedMotionWatcher = watchMediaQuery('(prefers-reduced-motion: reduce)', (matches) => {
+      this.prefersReducedMotion = matches;
+    });
+    this.prefersReducedMotion = reducedMotionWatcher.matches;
+    this.unwatchReducedMotion = reducedMotionWatcher.unsubscribe;
+    
+    // Step rendering quality down when frames exceed their budget
+    this.qualityGovernor = host?.qualityGovernor ?? new QualityGovernor(this.options.frameBudgetMs, (level, settings) => {
+      if (settings.maxDpr !== this.dprCap) {
+        this.setupCanvas();
       }
     });
     
-    this.forceSystem = new ForceSystem(this.options.sensitivity);
+    this.renderer = this.createRenderer();
+    
+    // A group owns the canvas, render loop and visibility handling of hosted orbs
+    if (this.host) return;
     
     // Setup canvas
     this.setupCanvas();
     
     // Setup resize handler
-    window.addEventListener('resize', () => this.setupCanvas());
+    window.addEventListener('resize', this.handleResize);
+    
+    // Pause rendering when the page is hidden or the canvas is scrolled off-screen
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.isPageVisible = document.visibilityState !== 'hidden';
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.intersectionObserver = new IntersectionObserver((entries) => {
+        this.isOnScreen = entries[entries.length - 1].isIntersecting;
+        this.updateAnimationState();
+      });
+      this.intersectionObserver.observe(this.canvas);
+    }
     
     // Setup accessibility
     this.setupAccessibility();
@@ -128,28 +393,206 @@ export class VoiceOrb {
     this.startAnimation();
   }
 
+  private handleResize = (): void => {
+    this.setupCanvas();
+  };
+
+  private handleVisibilityChange = (): void => {
+    this.isPageVisible = document.visibilityState !== 'hidden';
+    this.updateAnimationState();
+  };
+
   /**
    * Setup canvas size and position
    */
   private setupCanvas(): void {
     const rect = this.canvas.getBoundingClientRect();
-    const dpr = Math.min(window.devicePixelRatio || 1, 2); // Cap at 2x for performance
+    // Cap at 2x for performance, lower if the quality governor has dropped DPR
+    this.dprCap = this.qualityGovernor.getSettings().maxDpr;
+    const dpr = Math.min(window.devicePixelRatio || 1, this.dprCap);
     
-    this.canvas.width = rect.width * dpr;
-    this.canvas.height = rect.height * dpr;
-    this.ctx.scale(dpr, dpr);
+    this.renderer.resize(rect.width, rect.height, dpr);
     
     // Set CSS size
     this.canvas.style.width = `${rect.width}px`;
     this.canvas.style.height = `${rect.height}px`;
     
     // Update orb position
-    this.orbX = rect.width / 2;
-    this.orbY = rect.height / 2;
-    this.targetX = this.orbX;
-    this.targetY = this.orbY;
-    this.currentX = this.orbX;
-    this.currentY = this.orbY;
+    this.renderer.placeAt(rect.width / 2, rect.height / 2, true);
+  }
+  
+  /**
+   * Draw on the main thread, or in a worker when offscreen rendering is requested and supported
+   */
+  private createRenderer(): Renderer {
+    // A group's orbs share its canvas, so they always draw on the main thread.
+    // A canvas already handed to a worker can only be drawn on through it.
+    const offscreen = this.options.offscreen || hasRenderWorker(this.canvas);
+    if (offscreen && !this.host && supportsOffscreenRendering(this.canvas)) {
+      const workerUrl = this.options.workerUrl ?? new URL('./voice-orb-worker.mjs', import.meta.url);
+      return new OffscreenRenderer(this.canvas, workerUrl, this.getRenderOptions(), this.palette, {
+        onFrameCost: (costMs) => {
+          if (this.options.adaptiveQuality) {
+            this.qualityGovernor.recordFrame(costMs, this.getFrameInterval());
+          }
+        },
+        onError: (error) => {
+          this.options.onError?.(error);
+          this.events.emit('error', error);
+        },
+        onFallback: (error) => {
+          if (this.isDestroyed) return;
+          console.warn('Offscreen rendering unavailable, drawing on the main thread instead:', error);
+          this.renderer = this.createMainThreadRenderer();
+          this.setupCanvas();
+        }
+      });
+    }
+    
+    return this.createMainThreadRenderer();
+  }
+  
+  private createMainThreadRenderer(): Renderer {
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get 2D context from canvas');
+    }
+    return new OrbRenderer(ctx, this.getRenderOptions(), this.palette);
+  }
+  
+  /**
+   * Derive drawing options
+   */
+  private getRenderOptions(): RenderOptions {
+    return {
+      radius: this.options.radius,
+      color: this.options.color,
+      fillMode: this.options.fillMode,
+      gradientStops: this.options.gradientStops,
+      gradientType: this.options.gradientType,
+      gradientAngle: this.options.gradientAngle,
+      gradientVolumeShift: this.options.gradientVolumeShift,
+      gradientShiftAmount: this.options.gradientShiftAmount,
+      strokeWidth: this.options.strokeWidth,
+      strokeColor: this.options.strokeColor,
+      opacity: this.options.opacity,
+      duplexUserColor: this.options.duplexUserColor,
+      errorColor: this.options.errorColor,
+      pointCount: this.options.pointCount,
+      maxOffset: this.options.maxOffset,
+      pitchHueShift: this.options.pitchHueShift,
+      pitchDrift: this.options.pitchDrift,
+      deformation: this.options.deformation,
+      spectralIntensity: this.options.spectralIntensity,
+      spectralMirror: this.options.spectralMirror,
+      reducedMotionStyle: this.options.reducedMotionStyle
+    };
+  }
+
+  /**
+   * Derive spectral band configuration from options
+   */
+  private getBandConfig(): SpectralBandConfig {
+    // Band count follows point count unless set explicitly; mirrored blobs
+    // only need enough bands to cover half the outline
+    const pointCount = this.options.pointCount;
+    const derivedCount = this.options.spectralMirror ? Math.ceil(pointCount / 2) + 1 : pointCount;
+    
+    return {
+      bandCount: Math.max(1, Math.round(this.options.bandCount ?? derivedCount)),
+      minFrequency: this.options.minFrequency,
+      maxFrequency: this.options.maxFrequency,
+      attackMs: this.options.bandAttackMs,
+      releaseMs: this.options.bandReleaseMs
+    };
+  }
+
+  /**
+   * Derive voice activity detection settings from options
+   */
+  private getVadConfig(): VadConfig {
+    return {
+      enabled: this.options.vadEnabled,
+      onRatio: this.options.vadOnRatio,
+      offRatio: this.options.vadOffRatio,
+      hangoverMs: this.options.vadHangoverMs,
+      minSpeechMs: this.options.vadMinSpeechMs,
+      maxSpectralFlatness: this.options.vadMaxSpectralFlatness
+    };
+  }
+
+  /**
+   * Derive calibration settings from options
+   */
+  private getCalibrationSettings(): {
+    calibration: CalibrationConfig;
+    autoCalibration: boolean;
+    manualCalibration: CalibrationData;
+    calibrationProfile: CalibrationData | undefined;
+  } {
+    const baseline = this.options.baselineNoise;
+    return {
+      calibration: {
+        durationMs: this.options.calibrationDurationMs,
+        baselinePercentile: this.options.calibrationBaselinePercentile,
+        rangePercentile: this.options.calibrationRangePercentile
+      },
+      autoCalibration: this.options.autoCalibration,
+      manualCalibration: {
+        baseline,
+        gain: this.options.adaptiveGain,
+        sensitivity: baseline + this.options.sensitivity,
+        loudThreshold: this.options.loudThreshold,
+        veryLoudThreshold: this.options.veryLoudThreshold
+      },
+      calibrationProfile: this.options.calibrationProfile
+    };
+  }
+
+  /**
+   * Derive loudness metering settings from options
+   */
+  private getLoudnessConfig(): LoudnessConfig {
+    return {
+      model: this.options.volumeModel,
+      attackMs: this.options.loudnessAttackMs,
+      releaseMs: this.options.loudnessReleaseMs,
+      floorDb: this.options.loudnessFloorDb,
+      ceilingDb: this.options.loudnessCeilingDb
+    };
+  }
+
+  /**
+   * Pitch is detected when requested or when any pitch mapping is active
+   */
+  private isPitchEnabled(): boolean {
+    return Boolean(this.options.pitchTracking ||
+      this.options.pitchHueShift ||
+      this.options.pitchDrift ||
+      this.options.pitchSpawnAngle);
+  }
+
+  /**
+   * Derive background noise tracking settings from options
+   */
+  private getNoiseFloorConfig(): Partial<NoiseFloorConfig> {
+    return {
+      windowMs: this.options.noiseWindowMs,
+      maxRatePerSecond: this.options.noiseAdaptRate,
+      shiftRatio: this.options.noiseShiftRatio
+    };
+  }
+
+  /**
+   * Derive microphone capture constraints from options
+   */
+  private getMicrophoneConstraints(): MicrophoneConstraints {
+    return {
+      deviceId: this.options.deviceId,
+      echoCancellation: this.options.echoCancellation,
+      noiseSuppression: this.options.noiseSuppression,
+      autoGainControl: this.options.autoGainControl
+    };
   }
 
   /**
@@ -165,61 +608,232 @@ export class VoiceOrb {
    * Start microphone mode
    */
   async startMicrophone(): Promise<void> {
-    try {
-      await this.audioPipeline.initMicrophone();
-      this.currentMode = 'microphone';
-      this.options.onModeChange?.('microphone');
-    } catch (error) {
-      this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
-      throw error;
-    }
+    // Errors are reported through onError/'error' by the pipeline before rethrowing
+    await this.audioPipeline.initMicrophone();
+    this.setMode('microphone');
+  }
+
+  /**
+   * List available microphones. Labels are empty until permission has been granted.
+   */
+  static listMicrophones(): Promise<MediaDeviceInfo[]> {
+    return listAudioInputs();
+  }
+
+  /**
+   * Switch to another microphone without restarting or recalibrating.
+   * Pass undefined to use the system default device.
+   */
+  async switchMicrophone(deviceId?: string): Promise<void> {
+    this.options.deviceId = deviceId;
+    // Re-acquires a running microphone, otherwise applies on the next start
+    await this.audioPipeline.setMicrophoneConstraints(this.getMicrophoneConstraints());
+  }
+
+  /**
+   * Device ID of the microphone currently in use
+   */
+  getMicrophoneId(): string | null {
+    return this.audioPipeline.getActiveMicrophoneId();
   }
 
   /**
    * Start assistant mode for streaming audio
    */
   async startAssistant(): Promise<void> {
-    try {
-      await this.audioPipeline.initAssistant();
-      this.currentMode = 'assistant';
-      this.options.onModeChange?.('assistant');
-    } catch (error) {
-      this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
-      throw error;
-    }
+    await this.audioPipeline.initAssistant();
+    this.setMode('assistant');
+  }
+
+  /**
+   * Start full duplex mode: microphone and assistant audio visualized together,
+   * with barge-in detection when the user talks over playback
+   */
+  async startDuplex(): Promise<void> {
+    await this.audioPipeline.initDuplex();
+    this.setMode('duplex');
+  }
+
+  /**
+   * Visualize a host-provided MediaStream, track or AudioNode instead of capturing the microphone.
+   * As 'microphone' the source is calibrated and runs speech detection; as 'assistant' it is
+   * treated as playback. The source is only routed to the speakers with `monitor: true`.
+   */
+  async attachSource(source: ExternalAudioSource, options: AttachSourceOptions = {}): Promise<void> {
+    const role = options.as ?? 'microphone';
+    await this.audioPipeline.initSource(source, role, options.monitor ?? false);
+    this.setMode(role);
   }
 
   /**
    * Start test mode with simulated audio
    */
   startTest(): void {
-    this.currentMode = 'test';
-    this.options.onModeChange?.('test');
+    this.setMode('test');
+  }
+
+  /**
+   * Start external mode: no Web Audio, the host supplies volume through
+   * pushVolume() and setEnvelope()
+   */
+  async startExternal(): Promise<void> {
+    await this.audioPipeline.cleanup();
+    this.resetVisualState();
+    this.externalSource.reset();
+    this.setMode('external');
+  }
+
+  /**
+   * Supply a volume (0-1) at a time on the performance.now() clock (default: now).
+   * Samples are interpolated and the orb returns to rest once they stop arriving.
+   */
+  pushVolume(value: number, timestamp: number = performance.now()): void {
+    this.externalSource.push(value, timestamp);
+  }
+
+  /**
+   * Schedule an amplitude envelope (0-1 samples at sampleRate Hz) starting at startTime
+   * on the performance.now() clock (default: now), replacing samples from that time on
+   */
+  setEnvelope(samples: ArrayLike<number>, sampleRate: number, startTime: number = performance.now()): void {
+    this.externalSource.setEnvelope(samples, sampleRate, startTime);
+  }
+
+  /**
+   * Play back a recording from stopRecording() (or its encoded form) in place of live audio.
+   * Control playback through `replay`.
+   */
+  async startReplay(recording: OrbRecording | ArrayBuffer | string, options: ReplayOptions = {}): Promise<void> {
+    const data = decodeRecording(recording);
+    await this.audioPipeline.cleanup();
+    this.resetVisualState();
+    this.replayer.load(data, options);
+    this.setMode('replay');
   }
 
   /**
    * Stop all audio processing
    */
   async stop(): Promise<void> {
+    const previousMode = this.currentMode;
     this.currentMode = 'stopped';
+    this.replayer.unload();
+    this.externalSource.reset();
     await this.audioPipeline.cleanup();
-    this.forceSystem.clear();
     this.resetVisualState();
+    this.recorder?.captureMode(performance.now(), 'stopped');
     this.options.onModeChange?.('stopped');
+    this.events.emit('modechange', { mode: 'stopped', previousMode });
+  }
+
+  /**
+   * Switch mode and notify listeners
+   */
+  private setMode(mode: AudioMode): void {
+    const previousMode = this.currentMode;
+    this.currentMode = mode;
+    this.recorder?.captureMode(performance.now(), mode);
+    this.options.onModeChange?.(mode);
+    this.events.emit('modechange', { mode, previousMode });
+  }
+
+  /**
+   * Start capturing raw volume, thresholds, mode and state changes for replay.
+   * Restarting discards the recording in progress.
+   */
+  startRecording(): void {
+    this.recorder = new SessionRecorder(performance.now(), this.currentMode, this.stateMachine.getState());
   }
 
   /**
-   * Process audio stream data (for assistant mode)
+   * Finish capturing and return the recording (null if not recording).
+   * Serialize it with JSON.stringify() or the more compact encodeRecording().
    */
-  processAudioStream(audioData: ArrayBuffer | AudioBuffer | string): void {
-    this.audioPipeline.processAudioStream(audioData);
+  stopRecording(): OrbRecording | null {
+    const recording = this.recorder?.finish(performance.now()) ?? null;
+    this.recorder = null;
+    return recording;
   }
 
   /**
-   * Connect existing audio element to visualizer
+   * Whether a recording is in progress
    */
-  connectAudio(audioElement: HTMLAudioElement): boolean {
-    return this.audioPipeline.connectStreamingAudio(audioElement);
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  /**
+   * Set the conversational state (idle, listening, thinking, speaking, error).
+   * Throws on transitions the state machine doesn't allow unless forced.
+   */
+  setState(state: ConversationState, options: { force?: boolean } = {}): void {
+    const previousState = this.stateMachine.transition(state, options.force);
+    if (previousState !== state) {
+      this.recorder?.captureState(performance.now(), state);
+      this.events.emit('statechange', { state, previousState });
+    }
+  }
+
+  /**
+   * Get the conversational state
+   */
+  getState(): ConversationState {
+    return this.stateMachine.getState();
+  }
+
+  /**
+   * Whether the state machine allows moving to a state from the current one
+   */
+  canSetState(state: ConversationState): boolean {
+    return this.stateMachine.canTransition(state);
+  }
+
+  /**
+   * Subscribe to an orb event, returning an unsubscribe function
+   */
+  on<K extends keyof VoiceOrbEvents>(event: K, handler: (payload: VoiceOrbEvents[K]) => void): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an orb event
+   */
+  once<K extends keyof VoiceOrbEvents>(event: K, handler: (payload: VoiceOrbEvents[K]) => void): () => void {
+    return this.events.once(event, handler);
+  }
+
+  /**
+   * Unsubscribe from an orb event
+   */
+  off<K extends keyof VoiceOrbEvents>(event: K, handler: (payload: VoiceOrbEvents[K]) => void): void {
+    this.events.off(event, handler);
+  }
+
+  /**
+   * Process audio stream data (for assistant mode).
+   * With a PCM format, raw Int16/Float32 samples (or base64 strings of them)
+   * are resampled and scheduled back-to-back for gapless streaming.
+   */
+  processAudioStream(audioData: ArrayBuffer | AudioBuffer | Int16Array | Float32Array | string, format?: PcmFormat): void {
+    this.audioPipeline.processAudioStream(audioData, format);
+  }
+
+  /**
+   * Signal the end of a PCM stream so the next chunk starts a new stream instead of reporting an underrun
+   */
+  endAudioStream(): void {
+    this.audioPipeline.endAudioStream();
+  }
+
+  /**
+   * Connect an audio element, MediaStream, track or AudioNode as assistant audio
+   * (assistant or duplex mode). Only elements are routed to the speakers by default.
+   */
+  connectAudio(source: HTMLAudioElement | ExternalAudioSource, options: { monitor?: boolean } = {}): boolean {
+    if (source instanceof HTMLAudioElement) {
+      return this.audioPipeline.connectStreamingAudio(source);
+    }
+    return this.audioPipeline.connectSource(source, options.monitor ?? false);
   }
 
   /**
@@ -227,14 +841,112 @@ export class VoiceOrb {
    */
   setOptions(newOptions: Partial<VoiceOrbOptions>): void {
     this.options = { ...this.options, ...newOptions };
+    this.renderer.configure(this.getRenderOptions());
     
     // Update systems if needed
-    if (newOptions.pointCount) {
-      // Force system will handle this internally
+    if (newOptions.pointCount !== undefined ||
+        newOptions.bandCount !== undefined ||
+        newOptions.spectralMirror !== undefined ||
+        newOptions.minFrequency !== undefined ||
+        newOptions.maxFrequency !== undefined ||
+        newOptions.bandAttackMs !== undefined ||
+        newOptions.bandReleaseMs !== undefined) {
+      this.audioPipeline.configureBands(this.getBandConfig());
+    }
+    
+    if (newOptions.echoSuppression !== undefined) {
+      this.audioPipeline.setEchoSuppression(newOptions.echoSuppression);
+    }
+    if (newOptions.externalTimeoutMs !== undefined || newOptions.externalDelayMs !== undefined) {
+      this.externalSource.configure({
+        timeoutMs: this.options.externalTimeoutMs,
+        delayMs: this.options.externalDelayMs
+      });
+    }
+    if (newOptions.stateTransitionMs !== undefined) {
+      this.stateMachine.setTransitionMs(newOptions.stateTransitionMs);
+    }
+    
+    if ('audioContext' in newOptions) {
+      // Takes effect the next time audio is started
+      this.audioPipeline.setSharedContext(newOptions.audioContext ?? null);
+    }
+    if (newOptions.analysisWorklet !== undefined || newOptions.analysisHopSize !== undefined) {
+      this.audioPipeline.configureAnalysis({
+        worklet: newOptions.analysisWorklet,
+        hopSize: newOptions.analysisHopSize
+      });
+    }
+    
+    // Re-acquire the microphone with new device or processing constraints
+    if ('deviceId' in newOptions ||
+        newOptions.echoCancellation !== undefined ||
+        newOptions.noiseSuppression !== undefined ||
+        newOptions.autoGainControl !== undefined) {
+      this.audioPipeline.setMicrophoneConstraints(this.getMicrophoneConstraints()).catch(() => {
+        // Reported through onError by the pipeline
+      });
+    }
+    
+    // Update pitch tracking
+    if (Object.keys(newOptions).some(key => key.startsWith('pitch'))) {
+      this.audioPipeline.configurePitch(this.isPitchEnabled(), {
+        minFrequency: this.options.pitchMinHz,
+        maxFrequency: this.options.pitchMaxHz
+      });
+    }
+    
+    // Update loudness metering
+    if (newOptions.volumeModel !== undefined || Object.keys(newOptions).some(key => key.startsWith('loudness'))) {
+      this.audioPipeline.configureLoudness(this.getLoudnessConfig());
+    }
+    
+    // Update calibration
+    if (newOptions.autoCalibration !== undefined ||
+        newOptions.baselineNoise !== undefined ||
+        newOptions.sensitivity !== undefined ||
+        newOptions.loudThreshold !== undefined ||
+        newOptions.veryLoudThreshold !== undefined ||
+        newOptions.adaptiveGain !== undefined ||
+        Object.keys(newOptions).some(key => key.startsWith('calibration'))) {
+      const settings = this.getCalibrationSettings();
+      this.audioPipeline.configureCalibration({
+        ...settings,
+        calibrationProfile: settings.calibrationProfile ?? null
+      });
+    }
+    
+    // Update noise tracking
+    if (newOptions.noiseTracking !== undefined ||
+        newOptions.noiseWindowMs !== undefined ||
+        newOptions.noiseAdaptRate !== undefined ||
+        newOptions.noiseShiftRatio !== undefined) {
+      this.audioPipeline.configureNoiseTracking(this.options.noiseTracking, this.getNoiseFloorConfig());
+    }
+    
+    // Update voice activity detection
+    if (Object.keys(newOptions).some(key => key.startsWith('vad'))) {
+      this.audioPipeline.configureVad(this.getVadConfig());
+    }
+    
+    // Update theme
+    if (newOptions.theme !== undefined || newOptions.useCssVariables !== undefined) {
+      this.themeManager.setTheme(this.options.theme, this.options.useCssVariables);
+    }
+    
+    // Update performance settings
+    if (newOptions.frameBudgetMs !== undefined && !this.host) {
+      this.qualityGovernor.setBudget(newOptions.frameBudgetMs);
+    }
+    if (newOptions.adaptiveQuality === false && !this.host) {
+      this.qualityGovernor.reset();
+    }
+    if (newOptions.pauseWhenHidden !== undefined) {
+      this.updateAnimationState();
     }
     
     // Update accessibility
-    if (newOptions.ariaLabel) {
+    if (newOptions.ariaLabel && !this.host) {
       this.canvas.setAttribute('aria-label', newOptions.ariaLabel);
     }
   }
@@ -246,6 +958,35 @@ export class VoiceOrb {
     return { ...this.options };
   }
 
+  /**
+   * Options used when none are given
+   */
+  static getDefaultOptions(): Readonly<VoiceOrbOptions> {
+    return { ...VoiceOrb.DEFAULT_OPTIONS } as VoiceOrbOptions;
+  }
+
+  /**
+   * Re-read theme palette and CSS custom properties (e.g. after toggling a dark mode class)
+   */
+  refreshTheme(): void {
+    this.themeManager.refresh();
+  }
+
+  /**
+   * Get the name of the theme currently in effect
+   */
+  getResolvedTheme(): string {
+    return this.themeManager.getResolvedName();
+  }
+
+  /**
+   * Whether the reduced motion rendering path is active
+   */
+  isReducedMotion(): boolean {
+    const setting = this.options.reducedMotion;
+    return setting === 'auto' ? this.prefersReducedMotion : Boolean(setting);
+  }
+
   /**
    * Get current mode
    */
@@ -253,6 +994,64 @@ export class VoiceOrb {
     return this.currentMode;
   }
 
+  /**
+   * Whether the user is currently speaking (microphone mode)
+   */
+  isSpeaking(): boolean {
+    return this.audioPipeline.isSpeaking();
+  }
+
+  /**
+   * Latest loudness reading (RMS, peak, dBFS and weighted levels) for meters.
+   * Defaults to the assistant in assistant mode and the microphone otherwise.
+   */
+  getLoudness(source?: 'microphone' | 'assistant'): LoudnessReading | null {
+    return this.audioPipeline.getLoudness(source ?? (this.currentMode === 'assistant' ? 'assistant' : 'microphone'));
+  }
+
+  /**
+   * Latest pitch estimate, or null when pitch tracking is off
+   */
+  getPitch(): PitchReading | null {
+    return this.pitch ? { ...this.pitch } : null;
+  }
+
+  /**
+   * Run calibration again on the active microphone, resolving with the new profile.
+   * Rejects if calibration is cancelled first (stop, destroy, a microphone switch
+   * restoring a saved profile, or auto calibration being turned off).
+   */
+  recalibrate(): Promise<CalibrationData> {
+    if (!this.audioPipeline.recalibrate()) {
+      return Promise.reject(new Error('Microphone is not active'));
+    }
+    return new Promise((resolve, reject) => {
+      const cancel = (error: Error) => {
+        unsubscribe();
+        reject(error);
+      };
+      const unsubscribe = this.events.once('calibrationcomplete', (data) => {
+        this.calibrationWaiters.delete(cancel);
+        resolve(data);
+      });
+      this.calibrationWaiters.add(cancel);
+    });
+  }
+
+  /**
+   * Calibration profiles keyed by microphone device ID, for persisting between sessions
+   */
+  exportCalibrationProfiles(): Record<string, CalibrationData> {
+    return this.audioPipeline.exportCalibrationProfiles();
+  }
+
+  /**
+   * Load saved calibration profiles; matching microphones skip calibration
+   */
+  importCalibrationProfiles(profiles: Record<string, CalibrationData>): void {
+    this.audioPipeline.importCalibrationProfiles(profiles);
+  }
+
   /**
    * Get calibration status
    */
@@ -268,313 +1067,302 @@ export class VoiceOrb {
     this.targetVolume = 0;
     this.fadeMultiplier = 1;
     this.previousVolumeLevel = 0;
-    this.targetX = this.orbX;
-    this.targetY = this.orbY;
+    this.bandLevels = new Float32Array(0);
+    this.pitch = null;
+    this.pitchPosition = 0;
+    this.pitchPresence = 0;
+    this.renderer.reset();
+  }
+
+  /**
+   * Whether the render loop should currently be running
+   */
+  private shouldAnimate(): boolean {
+    if (this.isDestroyed || this.host) return false;
+    if (!this.options.pauseWhenHidden) return true;
+    return this.isPageVisible && this.isOnScreen;
+  }
+
+  /**
+   * Start or stop the render loop to match visibility
+   */
+  private updateAnimationState(): void {
+    if (this.shouldAnimate()) {
+      this.startAnimation();
+    } else {
+      this.stopAnimation();
+    }
   }
 
   /**
    * Start animation loop
    */
   private startAnimation(): void {
-    if (this.animationId) return;
+    if (this.animationId !== null || !this.shouldAnimate()) return;
     
-    const animate = () => {
-      this.draw();
+    // Resume without a time jump after a pause
+    this.lastFrameTime = null;
+    this.lastRenderTime = 0;
+    
+    const animate = (timestamp: number) => {
       this.animationId = requestAnimationFrame(animate);
+      
+      // Throttle to fpsLimit (1ms tolerance so a 60 fps limit doesn't skip 60 Hz vsyncs)
+      const frameInterval = this.options.fpsLimit > 0 ? 1000 / this.options.fpsLimit : 0;
+      if (timestamp - this.lastRenderTime < frameInterval - 1) return;
+      this.lastRenderTime = timestamp;
+      
+      const start = performance.now();
+      this.renderer.clear();
+      this.draw();
+      // A render worker reports its own frame cost
+      if (this.options.adaptiveQuality && !(this.renderer instanceof OffscreenRenderer)) {
+        this.qualityGovernor.recordFrame(performance.now() - start, this.getFrameInterval());
+      }
     };
     
-    animate();
+    animate(performance.now());
+  }
+
+  /**
+   * Frame interval the quality governor budgets against
+   */
+  private getFrameInterval(): number {
+    const frameInterval = this.options.fpsLimit > 0 ? 1000 / this.options.fpsLimit : 0;
+    return Math.max(frameInterval, REFERENCE_FRAME_MS);
   }
 
   /**
    * Stop animation loop
    */
   private stopAnimation(): void {
-    if (this.animationId) {
+    if (this.animationId !== null) {
       cancelAnimationFrame(this.animationId);
       this.animationId = null;
     }
   }
 
   /**
-   * Main drawing function
+   * Derive this frame's audio features, hand them to the renderer and notify listeners
    */
   private draw(): void {
-    // Clear canvas
-    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    // Elapsed time drives all smoothing so visuals match at any refresh rate;
+    // long gaps (background tabs) are capped to avoid jumps
+    const now = performance.now();
+    const frameMs = this.lastFrameTime === null
+      ? REFERENCE_FRAME_MS
+      : Math.min(now - this.lastFrameTime, VoiceOrb.MAX_FRAME_MS);
+    this.lastFrameTime = now;
+    const dt = frameMs * this.options.animationSpeed;
+    
+    // Get current volume; duplex renders the louder source and blends in the user's color
+    let rawVolume: number;
+    let userShare: number | null = null;
+    let thresholds = this.audioPipeline.getThresholds();
+    if (this.currentMode === 'replay') {
+      const sample = this.replayer.advance(frameMs);
+      rawVolume = sample.volume;
+      userShare = sample.userShare;
+      thresholds = sample.thresholds ?? thresholds;
+      this.applyReplayEvents();
+    } else if (this.currentMode === 'external') {
+      rawVolume = this.externalSource.getVolume(now);
+    } else if (this.currentMode === 'duplex') {
+      const volumes = this.audioPipeline.getDuplexVolumes();
+      rawVolume = Math.max(volumes.microphone, volumes.assistant);
+      const total = volumes.microphone + volumes.assistant;
+      userShare = total > 0.01 ? volumes.microphone / total : 0;
+    } else {
+      rawVolume = this.audioPipeline.getVolume(this.currentMode);
+    }
+    this.duplexUserShare = userShare === null ? 0 : damp(this.duplexUserShare, userShare, VoiceOrb.DUPLEX_BLEND_MS, dt);
+    this.recorder?.captureFrame(now, rawVolume, userShare ?? 0, thresholds);
+    
+    // Sample per-band energy when the blob is driven by the spectrum
+    if (this.options.deformation === 'spectral') {
+      this.bandLevels = this.audioPipeline.getBandLevels(this.currentMode, dt);
+    }
     
-    // Get current volume
-    const rawVolume = this.audioPipeline.getVolume(this.currentMode);
-    const thresholds = this.audioPipeline.getThresholds();
+    const spawnAngle = this.updatePitch(dt);
     
     // Track when we last had significant audio (before fade processing)
     if (rawVolume > thresholds.sensitivity) {
-      this.lastAudioTime = performance.now();
+      this.lastAudioTime = now;
     }
     
     // Enhanced fading system
-    const timeSinceAudio = performance.now() - this.lastAudioTime;
+    const timeSinceAudio = now - this.lastAudioTime;
     const fadeProgress = Math.min(timeSinceAudio / this.options.fadeOutMs, 1);
     const fadeFactor = 1 - easeOutCubic(fadeProgress);
     
     // Apply fade factor to volume for smooth return to circle
     this.targetVolume = rawVolume * fadeFactor;
-    this.smoothedVolume += (this.targetVolume - this.smoothedVolume) * this.options.volumeLerpFactor;
+    this.smoothedVolume = damp(this.smoothedVolume, this.targetVolume, this.getVolumeSmoothingMs(), dt);
     
     // Enhanced fade multiplier system
     const currentVolumeLevel = this.smoothedVolume;
     if (currentVolumeLevel < this.previousVolumeLevel) {
-      this.fadeMultiplier *= 0.96; // Gradual fade out
+      this.fadeMultiplier = damp(this.fadeMultiplier, 0, VoiceOrb.FADE_DECAY_MS, dt); // Gradual fade out
     } else {
-      this.fadeMultiplier += (1 - this.fadeMultiplier) * 0.15;
+      this.fadeMultiplier = damp(this.fadeMultiplier, 1, VoiceOrb.FADE_RECOVER_MS, dt);
     }
     this.fadeMultiplier = clamp(this.fadeMultiplier, 0, 1);
     this.previousVolumeLevel = currentVolumeLevel;
     
-    // Update force system
-    this.forceSystem.setFadeMultiplier(this.fadeMultiplier);
-    this.forceSystem.update(this.smoothedVolume, thresholds.sensitivity);
-    
-    // Additional tracking for smoothed volume (for internal force system)
-    if (this.smoothedVolume > thresholds.sensitivity) {
-      // This ensures forces stay active
+    // Forces spawned by the conversational state
+    const spawnCount = this.stateMachine.update(dt);
+    const stateStyle = this.stateMachine.getStyle();
+    const stateForces: { angle: number; strength: number }[] = [];
+    for (let i = 0; i < spawnCount; i++) {
+      stateForces.push({
+        angle: this.stateMachine.getSpawnAngle(),
+        strength: stateStyle.forceStrength * this.options.forceStrength
+      });
     }
     
-    // Check if we have active effects
-    const effectiveVolume = this.smoothedVolume * this.fadeMultiplier;
-    const hasActiveEffects = effectiveVolume >= thresholds.sensitivity || this.forceSystem.getActiveCount() > 0;
-    
     // Draw the orb
-    this.drawOrb(effectiveVolume, thresholds, hasActiveEffects);
-    
-    // Update time
-    this.time += effectiveVolume > thresholds.sensitivity ? 0.006 : 0.001;
+    const effectiveVolume = this.smoothedVolume * this.fadeMultiplier;
+    this.renderer.render({
+      dt,
+      now,
+      smoothedVolume: this.smoothedVolume,
+      effectiveVolume,
+      fadeMultiplier: this.fadeMultiplier,
+      thresholds,
+      bandLevels: this.bandLevels,
+      pitchPosition: this.pitchPosition,
+      pitchPresence: this.pitchPresence,
+      spawnAngle,
+      stateForces,
+      stateTint: stateStyle.tint,
+      ambient: stateStyle.ambient,
+      duplexUserShare: this.duplexUserShare,
+      reducedMotion: this.isReducedMotion(),
+      quality: this.qualityGovernor.getSettings(),
+      debug: this.options.debug ? {
+        mode: this.currentMode,
+        state: this.stateMachine.getState(),
+        rawVolume,
+        qualityLevel: this.qualityGovernor.getLevel(),
+        frameCost: this.qualityGovernor.getAverageCost()
+      } : null
+    });
     
-    // Callback for volume
+    // Notify volume and threshold tier crossings
     this.options.onVolume?.(effectiveVolume);
-    
-    // Draw debug info if enabled
-    if (this.options.debug) {
-      this.drawDebugInfo(rawVolume, effectiveVolume, thresholds);
+    const tier = this.getVolumeTier(effectiveVolume, thresholds);
+    if (tier !== this.volumeTier) {
+      const previousTier = this.volumeTier;
+      this.volumeTier = tier;
+      this.events.emit('tierchange', { tier, previousTier, volume: effectiveVolume });
     }
+    this.events.emit('volume', {
+      raw: rawVolume,
+      smoothed: this.smoothedVolume,
+      effective: effectiveVolume,
+      tier,
+      timestamp: now
+    });
   }
 
   /**
-   * Draw the orb shape
+   * Apply recorded state changes and report the end of a replay
    */
-  private drawOrb(effectiveVolume: number, thresholds: CalibrationData, hasActiveEffects: boolean): void {
-    // Set fill style
-    this.ctx.fillStyle = this.options.color;
-    this.ctx.globalAlpha = this.options.opacity;
-    
-    if (!hasActiveEffects) {
-      // Smoothly return to center when inactive
-      this.targetX = this.orbX;
-      this.targetY = this.orbY;
-      this.currentX += (this.targetX - this.currentX) * 0.05;
-      this.currentY += (this.targetY - this.currentY) * 0.05;
-      
-      // Perfect circle when below threshold and no effects
-      this.ctx.beginPath();
-      this.ctx.arc(this.currentX, this.currentY, this.options.radius, 0, Math.PI * 2);
-      this.ctx.fill();
-      
-    } else {
-      // Calculate movement based on volume level
-      this.updateOrbMovement(effectiveVolume, thresholds);
-      
-      // Generate organic blob shape
-      const blobPoints = this.generateBlobPoints(effectiveVolume, thresholds);
-      
-      // Draw smooth blob
-      this.drawBlob(blobPoints);
+  private applyReplayEvents(): void {
+    const state = this.replayer.takeStateChange();
+    if (state) {
+      this.setState(state, { force: true });
+    }
+    if (this.replayer.takeEnded()) {
+      this.events.emit('replayend', { duration: this.replayer.getDuration() });
     }
-    
-    // Reset alpha
-    this.ctx.globalAlpha = 1;
   }
 
   /**
-   * Update orb movement based on audio level
+   * Follow the detected pitch and pick the angle audio-driven forces spawn at (null = random)
    */
-  private updateOrbMovement(effectiveVolume: number, thresholds: CalibrationData): void {
-    let moveAmount = 0;
-    let moveSpeed = 1;
+  private updatePitch(dt: number): number | null {
+    this.pitch = this.audioPipeline.getPitch(this.currentMode);
+    const voiced = this.pitch?.voiced ?? false;
     
-    if (effectiveVolume > thresholds.veryLoudThreshold) {
-      // Very loud: dramatic movement
-      const agitation = (effectiveVolume - thresholds.veryLoudThreshold) * 2;
-      moveAmount = agitation * 30;
-      moveSpeed = 2 + agitation * 6;
-      this.targetX = this.orbX + Math.sin(this.time * moveSpeed) * moveAmount + 
-                   Math.sin(this.time * moveSpeed * 1.3) * moveAmount * 0.5;
-      this.targetY = this.orbY + Math.cos(this.time * moveSpeed * 0.8) * moveAmount + 
-                   Math.cos(this.time * moveSpeed * 1.2) * moveAmount * 0.4;
-    } else if (effectiveVolume > thresholds.loudThreshold) {
-      // Loud: moderate movement
-      const agitation = (effectiveVolume - thresholds.loudThreshold) * 3;
-      moveAmount = agitation * 20;
-      moveSpeed = 1.5 + agitation * 3;
-      this.targetX = this.orbX + Math.sin(this.time * moveSpeed) * moveAmount;
-      this.targetY = this.orbY + Math.cos(this.time * moveSpeed * 0.75) * moveAmount;
-    } else {
-      // Active: gentle movement
-      const adjustedVolume = Math.max(0, effectiveVolume - thresholds.sensitivity);
-      moveAmount = adjustedVolume * 12;
-      moveSpeed = 1.2 + adjustedVolume * 2;
-      this.targetX = this.orbX + Math.sin(this.time * moveSpeed) * moveAmount;
-      this.targetY = this.orbY + Math.cos(this.time * moveSpeed * 0.9) * moveAmount;
+    // Hold the last position through unvoiced frames while the envelope fades
+    if (this.pitch && voiced) {
+      const position = normalizePitch(this.pitch.frequency, this.options.pitchMinHz, this.options.pitchMaxHz);
+      this.pitchPosition = damp(this.pitchPosition, position, this.options.pitchSmoothingMs, dt);
     }
+    this.pitchPresence = damp(this.pitchPresence, voiced ? 1 : 0, this.options.pitchSmoothingMs, dt);
     
-    // Clamp movement to max offset
-    const maxOffset = this.options.maxOffset;
-    this.targetX = clamp(this.targetX, this.orbX - maxOffset, this.orbX + maxOffset);
-    this.targetY = clamp(this.targetY, this.orbY - maxOffset, this.orbY + maxOffset);
-    
-    // Smooth position transitions
-    const agitation = Math.max(0, effectiveVolume - thresholds.sensitivity);
-    const positionSpeed = 0.02 + agitation * agitation * 0.06;
-    this.currentX += (this.targetX - this.currentX) * positionSpeed;
-    this.currentY += (this.targetY - this.currentY) * positionSpeed;
+    if (this.options.pitchSpawnAngle && this.pitchPresence > 0.5) {
+      // Low pitch at the bottom, high pitch at the top, on a random side
+      const angle = Math.PI / 2 - (this.pitchPosition + 1) / 2 * Math.PI;
+      return Math.random() < 0.5 ? angle : Math.PI - angle;
+    }
+    return null;
   }
 
   /**
-   * Generate blob points for organic shape
+   * Classify volume against the current thresholds
    */
-  private generateBlobPoints(effectiveVolume: number, thresholds: CalibrationData): BlobPoint[] {
-    const points: BlobPoint[] = [];
-    const numPoints = this.options.pointCount;
-    
-    for (let i = 0; i < numPoints; i++) {
-      const angle = (i / numPoints) * Math.PI * 2;
-      
-      // Start with base radius
-      let radius = this.options.radius;
-      
-      // Get influence from internal forces
-      const forceInfluence = this.forceSystem.getInfluenceAt(angle) * this.fadeMultiplier;
-      
-      // Add controlled audio reaction
-      const adjustedVolume = Math.max(0, effectiveVolume - thresholds.sensitivity);
-      const audioAmplitude = adjustedVolume * 40 * this.fadeMultiplier;
-      
-      // Smoother wave patterns
-      const wave1 = Math.sin(angle * 2 + this.time * 2) * audioAmplitude;
-      const wave2 = Math.sin(angle * 3 - this.time * 1.5) * audioAmplitude * 0.6;
-      const wave3 = Math.sin(angle * 1.5 + this.time * 2.5) * audioAmplitude * 0.4;
-      
-      // Gentle organic variation
-      const organicNoise = (Math.sin(angle * 4 + this.time * 0.6) * 4 + 
-                          Math.sin(angle * 5 - this.time * 0.4) * 2) * this.fadeMultiplier;
-      
-      // Combine effects
-      radius += forceInfluence + wave1 + wave2 + wave3 + organicNoise;
-      
-      // Conservative bounds
-      radius = Math.max(radius, this.options.radius * (0.6 + (1 - this.fadeMultiplier) * 0.4));
-      radius = Math.min(radius, this.options.radius * (1 + (1.8 + adjustedVolume * 0.7 - 1) * this.fadeMultiplier));
-      
-      const x = this.currentX + Math.cos(angle) * radius;
-      const y = this.currentY + Math.sin(angle) * radius;
-      
-      points.push({ x, y });
-    }
-    
-    return points;
+  private getVolumeTier(volume: number, thresholds: CalibrationData): VolumeTier {
+    if (volume > thresholds.veryLoudThreshold) return 'veryLoud';
+    if (volume > thresholds.loudThreshold) return 'loud';
+    if (volume > thresholds.sensitivity) return 'active';
+    return 'quiet';
   }
 
   /**
-   * Draw smooth blob using quadratic curves
+   * Volume smoothing time constant, honoring the legacy per-frame volumeLerpFactor
    */
-  private drawBlob(points: BlobPoint[]): void {
-    const numPoints = points.length;
-    
-    this.ctx.beginPath();
-    
-    // Move to starting point
-    this.ctx.moveTo(
-      (points[numPoints - 1].x + points[0].x) / 2,
-      (points[numPoints - 1].y + points[0].y) / 2
-    );
-    
-    // Draw smooth curves through all points
-    for (let i = 0; i < numPoints; i++) {
-      const current = points[i];
-      const next = points[(i + 1) % numPoints];
-      
-      // Use quadratic curves for smooth results
-      const midX = (current.x + next.x) / 2;
-      const midY = (current.y + next.y) / 2;
-      
-      this.ctx.quadraticCurveTo(current.x, current.y, midX, midY);
-    }
-    
-    this.ctx.closePath();
-    this.ctx.fill();
-    
-    // Draw stroke if enabled
-    if (this.options.strokeWidth > 0) {
-      this.ctx.strokeStyle = this.options.strokeColor;
-      this.ctx.lineWidth = this.options.strokeWidth;
-      this.ctx.stroke();
+  private getVolumeSmoothingMs(): number {
+    if (this.options.volumeLerpFactor !== undefined) {
+      return timeConstantFromFactor(this.options.volumeLerpFactor);
     }
+    return this.options.volumeSmoothingMs;
   }
 
   /**
-   * Draw debug information overlay
+   * Draw one frame into the shared canvas
+   * @internal Used by VoiceOrbGroup
    */
-  private drawDebugInfo(rawVolume: number, effectiveVolume: number, thresholds: CalibrationData): void {
-    this.ctx.fillStyle = '#ffffff';
-    this.ctx.font = '12px monospace';
-    this.ctx.textAlign = 'left';
-    
-    const debugInfo = [
-      `Mode: ${this.currentMode.toUpperCase()}`,
-      `Raw Volume: ${rawVolume.toFixed(3)}`,
-      `Effective Volume: ${effectiveVolume.toFixed(3)}`,
-      `Smoothed Volume: ${this.smoothedVolume.toFixed(3)}`,
-      `Baseline: ${thresholds.baseline.toFixed(3)}`,
-      `Gain: ${thresholds.gain.toFixed(2)}`,
-      `Fade: ${this.fadeMultiplier.toFixed(3)}`,
-      `Forces: ${this.forceSystem.getActiveCount()}`,
-      `Sensitivity: ${thresholds.sensitivity.toFixed(3)}`,
-      `Loud: ${thresholds.loudThreshold.toFixed(3)}`,
-      `Very Loud: ${thresholds.veryLoudThreshold.toFixed(3)}`
-    ];
-    
-    debugInfo.forEach((info, index) => {
-      this.ctx.fillText(info, this.canvas.width - 250, 20 + index * 16);
-    });
-    
-    // Volume bar
-    const barY = 20 + debugInfo.length * 16 + 10;
-    const barWidth = 200;
-    const barHeight = 10;
-    const barX = this.canvas.width - 250;
-    
-    // Background
-    this.ctx.fillStyle = '#333333';
-    this.ctx.fillRect(barX, barY, barWidth, barHeight);
-    
-    // Volume fill
-    this.ctx.fillStyle = effectiveVolume > thresholds.sensitivity ? '#2563eb' : '#666666';
-    this.ctx.fillRect(barX, barY, effectiveVolume * barWidth, barHeight);
-    
-    // Threshold markers
-    this.ctx.fillStyle = '#ff0000';
-    this.ctx.fillRect(barX + thresholds.sensitivity * barWidth, barY - 2, 2, barHeight + 4);
-    this.ctx.fillStyle = '#ffaa00';
-    this.ctx.fillRect(barX + thresholds.loudThreshold * barWidth, barY - 2, 2, barHeight + 4);
-    this.ctx.fillStyle = '#ff00ff';
-    this.ctx.fillRect(barX + thresholds.veryLoudThreshold * barWidth, barY - 2, 2, barHeight + 4);
+  renderFrame(): void {
+    this.draw();
+  }
+
+  /**
+   * Move the orb's resting position; it glides there unless snapped
+   * @internal Used by VoiceOrbGroup
+   */
+  placeAt(x: number, y: number, snap: boolean = false): void {
+    this.renderer.placeAt(x, y, snap);
+  }
+
+  /**
+   * Scale and opacity multipliers for dominant speaker highlighting
+   * @internal Used by VoiceOrbGroup
+   */
+  setEmphasis(scale: number, opacity: number): void {
+    this.renderer.setEmphasis(scale, opacity);
   }
 
   /**
    * Cleanup and destroy the orb
    */
   async destroy(): Promise<void> {
+    this.isDestroyed = true;
+    this.host?.detach(this);
+    this.host = null;
     this.stopAnimation();
+    // Before awaiting: a new orb on the same canvas may be created right away and
+    // must find the render worker either released or never handed the canvas
+    this.renderer.destroy();
     await this.stop();
-    window.removeEventListener('resize', () => this.setupCanvas());
+    this.themeManager.destroy();
+    this.unwatchReducedMotion?.();
+    this.unwatchReducedMotion = null;
+    window.removeEventListener('resize', this.handleResize);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.intersectionObserver?.disconnect();
+    this.intersectionObserver = null;
+    this.events.removeAllListeners();
   }
 }
\ No newline at end of file
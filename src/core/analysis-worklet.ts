@@ -0,0 +1,281 @@
+/**
+ * Audio-thread analysis settings
+ */
+export interface AnalysisConfig {
+  fftSize: number;
+  smoothingTimeConstant: number;
+  // Samples between frames
+  hopSize: number;
+}
+
+/**
+ * One analysis frame posted by the processor
+ */
+export interface AnalysisFrame {
+  // Context time in seconds of the frame's last sample
+  time: number;
+  // The last fftSize samples, oldest first
+  timeData: Float32Array;
+  // Smoothed spectrum in dB, as AnalyserNode.getFloatFrequencyData() would read it
+  frequencyData: Float32Array;
+}
+
+// Globals of AudioWorkletGlobalScope, which the DOM typings leave out
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+const PROCESSOR_NAME = 'voice-orb-analysis';
+
+/**
+ * Registers the analysis processor. Runs inside the worklet from its source text,
+ * so it must not reference anything outside its own body.
+ */
+function defineAnalysisProcessor(): void {
+  class VoiceOrbAnalysisProcessor extends AudioWorkletProcessor {
+    private fftSize: number;
+    private hopSize: number;
+    private smoothing: number;
+    private active: boolean = true;
+
+    // Circular input history of fftSize samples
+    private history: Float32Array;
+    private writeIndex: number = 0;
+    private sinceHop: number = 0;
+
+    private window: Float32Array;
+    private cosTable: Float32Array;
+    private sinTable: Float32Array;
+    private reverse: Uint32Array;
+    private real: Float32Array;
+    private imag: Float32Array;
+    private magnitudes: Float32Array;
+
+    constructor(options: AudioWorkletNodeOptions) {
+      super();
+      const config = options.processorOptions;
+      this.fftSize = config.fftSize;
+      this.hopSize = Math.max(1, Math.round(config.hopSize));
+      this.smoothing = config.smoothingTimeConstant;
+
+      const size = this.fftSize;
+      this.history = new Float32Array(size);
+      this.real = new Float32Array(size);
+      this.imag = new Float32Array(size);
+      this.magnitudes = new Float32Array(size / 2);
+
+      // Blackman window, as applied by AnalyserNode
+      this.window = new Float32Array(size);
+      this.cosTable = new Float32Array(size / 2);
+      this.sinTable = new Float32Array(size / 2);
+      for (let i = 0; i < size; i++) {
+        const phase = (2 * Math.PI * i) / size;
+        this.window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        if (i < size / 2) {
+          this.cosTable[i] = Math.cos(phase);
+          this.sinTable[i] = Math.sin(phase);
+        }
+      }
+
+      const bits = Math.round(Math.log2(size));
+      this.reverse = new Uint32Array(size);
+      for (let i = 0; i < size; i++) {
+        let reversed = 0;
+        for (let b = 0; b < bits; b++) {
+          reversed |= ((i >> b) & 1) << (bits - 1 - b);
+        }
+        this.reverse[i] = reversed;
+      }
+
+      this.port.onmessage = (event: MessageEvent) => {
+        if (event.data === 'stop') {
+          this.active = false;
+        }
+      };
+    }
+
+    process(inputs: Float32Array[][]): boolean {
+      if (!this.active) return false;
+
+      const channels = inputs[0];
+      if (!channels || channels.length === 0) return true;
+
+      const length = channels[0].length;
+      for (let i = 0; i < length; i++) {
+        // Down-mix to mono like the analyser does
+        let sample = 0;
+        for (let c = 0; c < channels.length; c++) {
+          sample += channels[c][i];
+        }
+        this.history[this.writeIndex] = sample / channels.length;
+        this.writeIndex = (this.writeIndex + 1) % this.fftSize;
+
+        if (++this.sinceHop >= this.hopSize) {
+          this.sinceHop = 0;
+          this.postFrame(currentTime + (i + 1) / sampleRate);
+        }
+      }
+      return true;
+    }
+
+    private postFrame(time: number): void {
+      const size = this.fftSize;
+      const timeData = new Float32Array(size);
+      for (let i = 0; i < size; i++) {
+        timeData[i] = this.history[(this.writeIndex + i) % size];
+        this.real[this.reverse[i]] = timeData[i] * this.window[i];
+        this.imag[this.reverse[i]] = 0;
+      }
+
+      // Iterative radix-2 FFT
+      for (let span = 2; span <= size; span <<= 1) {
+        const half = span >> 1;
+        const step = size / span;
+        for (let start = 0; start < size; start += span) {
+          for (let j = 0; j < half; j++) {
+            const cos = this.cosTable[j * step];
+            const sin = this.sinTable[j * step];
+            const a = start + j;
+            const b = a + half;
+            const re = this.real[b] * cos + this.imag[b] * sin;
+            const im = this.imag[b] * cos - this.real[b] * sin;
+            this.real[b] = this.real[a] - re;
+            this.imag[b] = this.imag[a] - im;
+            this.real[a] += re;
+            this.imag[a] += im;
+          }
+        }
+      }
+
+      const frequencyData = new Float32Array(size / 2);
+      for (let k = 0; k < size / 2; k++) {
+        const magnitude = Math.sqrt(this.real[k] * this.real[k] + this.imag[k] * this.imag[k]) / size;
+        this.magnitudes[k] = this.smoothing * this.magnitudes[k] + (1 - this.smoothing) * magnitude;
+        frequencyData[k] = this.magnitudes[k] > 0 ? 20 * Math.log10(this.magnitudes[k]) : -Infinity;
+      }
+
+      this.port.postMessage({ time, timeData, frequencyData }, [timeData.buffer, frequencyData.buffer]);
+    }
+  }
+
+  registerProcessor('voice-orb-analysis', VoiceOrbAnalysisProcessor);
+}
+
+// Module loads per context; the processor can only be registered once in each
+const moduleLoads = new WeakMap<BaseAudioContext, Promise<void>>();
+let moduleUrl: string | null = null;
+
+function loadProcessor(context: BaseAudioContext): Promise<void> {
+  let loading = moduleLoads.get(context);
+  if (!loading) {
+    if (!moduleUrl) {
+      const source = `(${defineAnalysisProcessor.toString()})();`;
+      moduleUrl = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+    }
+    loading = context.audioWorklet.addModule(moduleUrl);
+    moduleLoads.set(context, loading);
+  }
+  return loading;
+}
+
+/**
+ * Whether a context can run audio worklets
+ */
+export function supportsAudioWorklet(context: BaseAudioContext): boolean {
+  return typeof AudioWorkletNode !== 'undefined' && !!context.audioWorklet;
+}
+
+/**
+ * Convert a dB spectrum to byte magnitudes, as AnalyserNode.getByteFrequencyData() scales them
+ */
+export function toByteFrequencyData(frequencyData: Float32Array, minDecibels: number, maxDecibels: number): Uint8Array {
+  const bytes = new Uint8Array(frequencyData.length);
+  const scale = 255 / (maxDecibels - minDecibels);
+  for (let i = 0; i < frequencyData.length; i++) {
+    bytes[i] = Math.max(0, Math.min(255, Math.floor((frequencyData[i] - minDecibels) * scale)));
+  }
+  return bytes;
+}
+
+/**
+ * Analyses an analyser's pass-through output on the audio thread.
+ *
+ * An AudioWorkletProcessor windows and transforms the signal every hopSize samples,
+ * independent of the page's frame rate, and posts each frame over its message port.
+ * Frames keep arriving while rendering is throttled in a background tab.
+ */
+export class AnalysisTap {
+  private context: AudioContext;
+  private source: AudioNode;
+  private node: AudioWorkletNode;
+
+  private constructor(
+    source: AnalyserNode,
+    config: AnalysisConfig,
+    onFrame: (frame: AnalysisFrame, timestamp: number) => void
+  ) {
+    this.context = source.context as AudioContext;
+    this.source = source;
+    this.node = new AudioWorkletNode(this.context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      processorOptions: { ...config }
+    });
+    this.node.port.onmessage = (event: MessageEvent<AnalysisFrame>) => {
+      onFrame(event.data, this.toTimestamp(event.data.time));
+    };
+    source.connect(this.node);
+  }
+
+  /**
+   * Tap an analyser, or resolve null where audio worklets are unavailable or blocked
+   */
+  static async create(
+    source: AnalyserNode,
+    config: AnalysisConfig,
+    onFrame: (frame: AnalysisFrame, timestamp: number) => void
+  ): Promise<AnalysisTap | null> {
+    if (!supportsAudioWorklet(source.context)) return null;
+
+    try {
+      await loadProcessor(source.context);
+      return new AnalysisTap(source, config, onFrame);
+    } catch (error) {
+      moduleLoads.delete(source.context);
+      console.warn('Audio worklet analysis unavailable, polling the analyser instead:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Map a context time onto the performance.now() clock
+   */
+  private toTimestamp(time: number): number {
+    const stamp = typeof this.context.getOutputTimestamp === 'function' ? this.context.getOutputTimestamp() : null;
+    if (stamp && stamp.contextTime !== undefined && stamp.performanceTime) {
+      return stamp.performanceTime + (time - stamp.contextTime) * 1000;
+    }
+    return performance.now() - (this.context.currentTime - time) * 1000;
+  }
+
+  /**
+   * Stop the processor and disconnect it
+   */
+  disconnect(): void {
+    this.node.port.onmessage = null;
+    this.node.port.postMessage('stop');
+    try {
+      this.source.disconnect(this.node);
+    } catch (e) {
+      // Context already closed
+    }
+    this.node.port.close();
+  }
+}
@@ -1,24 +1,56 @@
-import { AudioMode, CalibrationData } from '../types.js';
+import { AudioMode, CalibrationData, PcmFormat, MicrophoneConstraints, MicrophoneChangeReason, ExternalAudioSource, LoudnessReading, PitchReading } from '../types.js';
+import { SpectralBands, SpectralBandConfig } from './spectrum.js';
+import { VoiceActivityDetector, VadConfig, computeSpectralFlatness } from './vad.js';
+import { EchoEstimator } from './duplex.js';
+import { PcmStreamPlayer } from './stream-player.js';
+import { Calibrator, CalibrationConfig } from './calibration.js';
+import { NoiseFloorTracker, NoiseFloorConfig } from './noise-floor.js';
+import { LoudnessMeter, LoudnessConfig } from './loudness.js';
+import { PitchDetector, PitchConfig } from './pitch.js';
+import { buildAudioConstraints, listAudioInputs } from './devices.js';
+import { AnalysisTap, AnalysisFrame, toByteFrequencyData } from './analysis-worklet.js';
 
 /**
  * Manages audio processing, calibration, and analysis
  */
 export class AudioPipeline {
+  // Host-provided context used instead of creating one; never closed here
+  private sharedContext: AudioContext | null = null;
+  private ownedContexts = new Set<AudioContext>();
+  private connectedSources: { node: AudioNode; outputs: AudioNode[]; ownsNode: boolean }[] = [];
+  
   private audioContext: AudioContext | null = null;
   private analyser: AnalyserNode | null = null;
   private microphone: MediaStreamAudioSourceNode | null = null;
   private mediaStream: MediaStream | null = null;
+  private microphoneConstraints: MicrophoneConstraints = {};
+  private activeDeviceId: string | null = null;
+  private pendingMicrophoneSwitch: Promise<void> | null = null;
   
   // Assistant audio mode
   private assistantAudioContext: AudioContext | null = null;
   private assistantAnalyser: AnalyserNode | null = null;
   private assistantAudioElement: HTMLAudioElement | null = null;
+  private streamPlayer: PcmStreamPlayer | null = null;
+  private jitterBufferMs: number = 80;
+  private playbackPaused: boolean = false;
+  private pausedElements: HTMLAudioElement[] = [];
   
   // Calibration system
-  private isCalibrating: boolean = false;
-  private calibrationSamples: number[] = [];
-  private calibrationStartTime: number = 0;
-  private readonly CALIBRATION_DURATION = 1000; // 1 second for testing
+  private calibrator: Calibrator;
+  private autoCalibration: boolean = true;
+  // Thresholds used when not calibrating, and restored on cleanup
+  private manualCalibration: CalibrationData = {
+    baseline: 0.02,
+    gain: 1.0,
+    sensitivity: 0.08,
+    loudThreshold: 0.4,
+    veryLoudThreshold: 0.7
+  };
+  // Applied to inputs without a saved profile, skipping calibration
+  private defaultProfile: CalibrationData | null = null;
+  // Calibration results keyed by microphone device ID
+  private calibrationProfiles = new Map<string, CalibrationData>();
   
   // Audio processing state
   private baselineNoise: number = 0.02;
@@ -29,23 +61,179 @@ export class AudioPipeline {
   private volumeHistory: number[] = [];
   private readonly VOLUME_HISTORY_SIZE = 100;
   
+  // Background noise tracking (microphone mode)
+  private noiseTracker: NoiseFloorTracker;
+  private noiseTracking: boolean = true;
+  
+  // Spectral analysis
+  private spectralBands: SpectralBands;
+  
+  // Loudness metering per source
+  private loudnessConfig: LoudnessConfig;
+  private microphoneMeter: LoudnessMeter;
+  private assistantMeter: LoudnessMeter;
+  
+  // Pitch tracking, on longer-window analysers chained after the main ones
+  private pitchEnabled: boolean = false;
+  private pitchDetector: PitchDetector;
+  private pitchTaps = new Map<AnalyserNode, AnalyserNode>();
+  private readonly PITCH_FFT_SIZE = 2048;
+  
+  // Voice activity detection (microphone mode)
+  private vad: VoiceActivityDetector;
+  
+  // Full duplex
+  private duplexActive: boolean = false;
+  private echoSuppression: boolean = true;
+  private echoEstimator = new EchoEstimator();
+  private lastAssistantVolume: number = 0;
+  
   // Configuration
   private fftSize: number = 512;
   private smoothingTimeConstant: number = 0.8;
   
+  // Audio-thread analysis; without a tap the analysers are polled each frame
+  private analysisWorklet: boolean = true;
+  private analysisHopSize: number = 512;
+  private microphoneTap: AnalysisTap | null = null;
+  private assistantTap: AnalysisTap | null = null;
+  // Latest processed microphone volume from the tap
+  private microphoneVolume: number = 0;
+  
+  // Playback tracking (assistant mode)
+  private activePlaybackCount: number = 0;
+  private elementPlaybackHandlers = new Map<HTMLAudioElement, { start: () => void; end: () => void; playing: boolean }>();
+  
   // Callbacks
   private onCalibrated?: (data: CalibrationData) => void;
+  private onCalibrationStart?: () => void;
+  private onCalibrationProgress?: (progress: number, samplesCount: number) => void;
+  private onCalibrationCancel?: (reason: string) => void;
+  private onPlaybackStart?: () => void;
+  private onPlaybackEnd?: () => void;
+  private onUnderrun?: (gapMs: number) => void;
+  private onChunkEnd?: (queueDepth: number) => void;
+  private onQueueDrained?: () => void;
+  private onMicrophoneChange?: (deviceId: string | null, label: string, reason: MicrophoneChangeReason) => void;
+  private onNoiseFloorChange?: (baseline: number, previousBaseline: number) => void;
   private onError?: (error: Error) => void;
 
   constructor(options: {
     fftSize?: number;
     smoothingTimeConstant?: number;
+    analysisWorklet?: boolean;
+    analysisHopSize?: number;
+    bands?: Partial<SpectralBandConfig>;
+    vad?: Partial<VadConfig>;
+    onSpeechStart?: (timestamp: number) => void;
+    onSpeechEnd?: (timestamp: number, duration: number) => void;
+    onBargeIn?: (timestamp: number, assistantVolume: number) => void;
+    echoSuppression?: boolean;
+    jitterBufferMs?: number;
+    onUnderrun?: (gapMs: number) => void;
+    onChunkEnd?: (queueDepth: number) => void;
+    onQueueDrained?: () => void;
+    audioContext?: AudioContext;
+    microphone?: MicrophoneConstraints;
+    onMicrophoneChange?: (deviceId: string | null, label: string, reason: MicrophoneChangeReason) => void;
+    calibration?: Partial<CalibrationConfig>;
+    autoCalibration?: boolean;
+    manualCalibration?: Partial<CalibrationData>;
+    calibrationProfile?: CalibrationData;
+    loudness?: Partial<LoudnessConfig>;
+    pitchTracking?: boolean;
+    pitch?: Partial<PitchConfig>;
+    noiseTracking?: boolean;
+    noiseFloor?: Partial<NoiseFloorConfig>;
+    onNoiseFloorChange?: (baseline: number, previousBaseline: number) => void;
     onCalibrated?: (data: CalibrationData) => void;
+    onCalibrationStart?: () => void;
+    onCalibrationProgress?: (progress: number, samplesCount: number) => void;
+    onCalibrationCancel?: (reason: string) => void;
+    onPlaybackStart?: () => void;
+    onPlaybackEnd?: () => void;
     onError?: (error: Error) => void;
   } = {}) {
     this.fftSize = options.fftSize || 512;
     this.smoothingTimeConstant = options.smoothingTimeConstant || 0.8;
+    this.analysisWorklet = options.analysisWorklet ?? true;
+    this.analysisHopSize = options.analysisHopSize ?? 512;
+    this.spectralBands = new SpectralBands({
+      bandCount: 12,
+      minFrequency: 80,
+      maxFrequency: 8000,
+      attackMs: 24,
+      releaseMs: 100,
+      ...options.bands
+    });
+    this.vad = new VoiceActivityDetector({
+      enabled: true,
+      onRatio: 1.2,
+      offRatio: 0.8,
+      hangoverMs: 300,
+      minSpeechMs: 120,
+      ...options.vad
+    }, {
+      onSpeechStart: (timestamp) => {
+        options.onSpeechStart?.(timestamp);
+        // User speech over assistant playback is a barge-in
+        if (this.duplexActive && (this.isPlaying() || this.lastAssistantVolume > this.dynamicSensitivityThreshold)) {
+          options.onBargeIn?.(timestamp, this.lastAssistantVolume);
+        }
+      },
+      onSpeechEnd: options.onSpeechEnd
+    });
+    this.loudnessConfig = {
+      model: 'spectral',
+      attackMs: 10,
+      releaseMs: 150,
+      floorDb: -60,
+      ceilingDb: 0,
+      ...options.loudness
+    };
+    this.microphoneMeter = new LoudnessMeter(this.loudnessConfig);
+    this.assistantMeter = new LoudnessMeter(this.loudnessConfig);
+    this.pitchEnabled = options.pitchTracking ?? false;
+    this.pitchDetector = new PitchDetector({
+      minFrequency: 70,
+      maxFrequency: 500,
+      threshold: 0.15,
+      ...options.pitch
+    });
+    this.calibrator = new Calibrator({
+      durationMs: 1000,
+      baselinePercentile: 0.5,
+      rangePercentile: 0.9,
+      ...options.calibration
+    });
+    this.autoCalibration = options.autoCalibration ?? true;
+    this.manualCalibration = { ...this.manualCalibration, ...options.manualCalibration };
+    this.defaultProfile = options.calibrationProfile ?? null;
+    this.noiseTracking = options.noiseTracking ?? true;
+    this.noiseTracker = new NoiseFloorTracker({
+      windowMs: 3000,
+      maxRatePerSecond: 0.01,
+      minFloor: 0.005,
+      maxFloor: 0.3,
+      shiftRatio: 0.5,
+      ...options.noiseFloor
+    }, this.manualCalibration.baseline);
+    this.onNoiseFloorChange = options.onNoiseFloorChange;
+    this.applyCalibration(this.manualCalibration);
+    this.echoSuppression = options.echoSuppression ?? true;
+    this.jitterBufferMs = options.jitterBufferMs ?? 80;
+    this.onUnderrun = options.onUnderrun;
+    this.onChunkEnd = options.onChunkEnd;
+    this.onQueueDrained = options.onQueueDrained;
+    this.sharedContext = options.audioContext ?? null;
+    this.microphoneConstraints = { ...options.microphone };
+    this.onMicrophoneChange = options.onMicrophoneChange;
     this.onCalibrated = options.onCalibrated;
+    this.onCalibrationStart = options.onCalibrationStart;
+    this.onCalibrationProgress = options.onCalibrationProgress;
+    this.onCalibrationCancel = options.onCalibrationCancel;
+    this.onPlaybackStart = options.onPlaybackStart;
+    this.onPlaybackEnd = options.onPlaybackEnd;
     this.onError = options.onError;
   }
 
@@ -55,33 +243,7 @@ export class AudioPipeline {
   async initMicrophone(): Promise<void> {
     try {
       await this.cleanup();
-      
-      console.log('Requesting microphone access...');
-      
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: false,
-          noiseSuppression: false,
-          autoGainControl: false
-        }
-      });
-      
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      
-      if (this.audioContext.state === 'suspended') {
-        await this.audioContext.resume();
-      }
-      
-      this.analyser = this.audioContext.createAnalyser();
-      this.microphone = this.audioContext.createMediaStreamSource(this.mediaStream);
-      
-      this.analyser.fftSize = this.fftSize;
-      this.analyser.smoothingTimeConstant = this.smoothingTimeConstant;
-      
-      this.microphone.connect(this.analyser);
-      
-      this.startCalibration();
-      
+      await this.setupMicrophone();
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.onError?.(err);
@@ -95,85 +257,536 @@ export class AudioPipeline {
   async initAssistant(): Promise<void> {
     try {
       await this.cleanup();
-      
-      this.assistantAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      
-      if (this.assistantAudioContext.state === 'suspended') {
-        await this.assistantAudioContext.resume();
+      await this.setupAssistant();
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.onError?.(err);
+      throw err;
+    }
+  }
+
+  /**
+   * Initialize microphone and assistant audio together (full duplex)
+   */
+  async initDuplex(): Promise<void> {
+    try {
+      await this.cleanup();
+      await this.setupAssistant();
+      await this.setupMicrophone();
+      this.duplexActive = true;
+    } catch (error) {
+      await this.cleanup();
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.onError?.(err);
+      throw err;
+    }
+  }
+
+  /**
+   * Initialize with a host-provided source in place of the microphone or assistant element
+   */
+  async initSource(source: ExternalAudioSource, role: 'microphone' | 'assistant', monitor: boolean): Promise<void> {
+    try {
+      await this.cleanup();
+      if (role === 'assistant') {
+        await this.setupAssistant(source);
+        this.attachSource(source, this.assistantAudioContext!, this.assistantAnalyser!, monitor);
+      } else {
+        await this.setupMicrophone(source, monitor);
+      }
+    } catch (error) {
+      await this.cleanup();
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.onError?.(err);
+      throw err;
+    }
+  }
+
+  /**
+   * Use a host-provided AudioContext from the next start on (null to create our own)
+   */
+  setSharedContext(context: AudioContext | null): void {
+    this.sharedContext = context;
+  }
+
+  /**
+   * Get the shared context, the context of a source node, or a new context owned by the pipeline
+   */
+  private acquireContext(source?: ExternalAudioSource): AudioContext {
+    if (source instanceof AudioNode) {
+      return source.context as AudioContext;
+    }
+    if (this.sharedContext) {
+      return this.sharedContext;
+    }
+    
+    const context: AudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    this.ownedContexts.add(context);
+    return context;
+  }
+
+  /**
+   * Close a context if the pipeline created it
+   */
+  private async releaseContext(context: AudioContext | null, label: string): Promise<void> {
+    if (!context || !this.ownedContexts.has(context)) return;
+    
+    this.ownedContexts.delete(context);
+    if (context.state !== 'closed') {
+      try {
+        await context.close();
+      } catch (e) {
+        console.warn(`Error closing ${label}:`, e);
+      }
+    }
+  }
+
+  /**
+   * Connect a host-provided source to an analyser, and to the destination only when monitoring
+   */
+  private attachSource(source: ExternalAudioSource, context: AudioContext, analyser: AnalyserNode, monitor: boolean): void {
+    let node: AudioNode;
+    if (source instanceof AudioNode) {
+      if (source.context !== context) {
+        throw new Error('Audio node belongs to a different AudioContext');
+      }
+      node = source;
+    } else {
+      const stream = source instanceof MediaStream ? source : new MediaStream([source]);
+      node = context.createMediaStreamSource(stream);
+    }
+    
+    const outputs: AudioNode[] = monitor ? [analyser, context.destination] : [analyser];
+    outputs.forEach(output => node.connect(output));
+    this.connectedSources.push({ node, outputs, ownsNode: node !== source });
+  }
+
+  /**
+   * Disconnect attached sources, leaving host nodes' other connections intact
+   */
+  private detachSources(): void {
+    this.connectedSources.forEach(({ node, outputs, ownsNode }) => {
+      try {
+        if (ownsNode) {
+          node.disconnect();
+        } else {
+          outputs.forEach(output => node.disconnect(output));
+        }
+      } catch (e) {
+        console.warn('Error disconnecting audio source:', e);
+      }
+    });
+    this.connectedSources = [];
+  }
+
+  /**
+   * Create microphone context, analyser and source, then calibrate.
+   * A host-provided source replaces getUserMedia; its tracks are never stopped.
+   */
+  private async setupMicrophone(source?: ExternalAudioSource, monitor: boolean = false): Promise<void> {
+    let stream: MediaStream | null = null;
+    if (!source) {
+      console.log('Requesting microphone access...');
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: buildAudioConstraints(this.microphoneConstraints)
+      });
+    }
+    
+    this.audioContext = this.acquireContext(source);
+    
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+    
+    this.analyser = this.audioContext.createAnalyser();
+    this.analyser.fftSize = this.fftSize;
+    this.analyser.smoothingTimeConstant = this.smoothingTimeConstant;
+    
+    if (stream) {
+      this.attachMicrophoneStream(stream);
+      navigator.mediaDevices.addEventListener?.('devicechange', this.handleDeviceChange);
+    } else {
+      this.attachSource(source!, this.audioContext, this.analyser, monitor);
+    }
+    
+    this.microphoneTap = await this.createAnalysisTap(this.analyser, (frame, timestamp) => {
+      this.handleMicrophoneFrame(frame, timestamp);
+    });
+    
+    this.calibrateInput();
+  }
+
+  /**
+   * Connect a microphone stream to the analyser
+   */
+  private attachMicrophoneStream(stream: MediaStream): void {
+    if (!this.audioContext || !this.analyser) return;
+    
+    this.mediaStream = stream;
+    this.microphone = this.audioContext.createMediaStreamSource(stream);
+    this.microphone.connect(this.analyser);
+    
+    const track = stream.getAudioTracks()[0];
+    track?.addEventListener('ended', this.handleTrackEnded);
+    this.activeDeviceId = track?.getSettings().deviceId ?? null;
+  }
+
+  /**
+   * Disconnect and stop the current microphone stream
+   */
+  private releaseMicrophoneStream(): void {
+    if (this.microphone) {
+      try {
+        this.microphone.disconnect();
+      } catch (e) {
+        console.warn('Error disconnecting microphone:', e);
       }
+      this.microphone = null;
+    }
+    
+    if (this.mediaStream) {
+      try {
+        this.mediaStream.getTracks().forEach(track => {
+          track.removeEventListener('ended', this.handleTrackEnded);
+          track.stop();
+        });
+      } catch (e) {
+        console.warn('Error stopping media tracks:', e);
+      }
+      this.mediaStream = null;
+    }
+    
+    this.activeDeviceId = null;
+  }
+
+  /**
+   * Swap the microphone input without touching the analyser or calibration.
+   * Pass undefined to use the system default device.
+   */
+  async switchMicrophone(deviceId?: string, reason: MicrophoneChangeReason = 'switched'): Promise<void> {
+    if (!this.audioContext || !this.analyser || !this.microphone) {
+      throw new Error('Microphone is not active');
+    }
+    
+    const switching = (async () => {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: buildAudioConstraints({ ...this.microphoneConstraints, deviceId })
+      });
       
-      this.assistantAnalyser = this.assistantAudioContext.createAnalyser();
-      this.assistantAnalyser.fftSize = this.fftSize;
-      this.assistantAnalyser.smoothingTimeConstant = this.smoothingTimeConstant;
+      this.releaseMicrophoneStream();
+      this.microphoneConstraints.deviceId = deviceId;
+      this.attachMicrophoneStream(stream);
       
-      this.assistantAudioElement = document.createElement('audio');
-      this.assistantAudioElement.crossOrigin = 'anonymous';
-      this.assistantAudioElement.controls = false;
+      // Calibration carries over unless the new device has its own profile
+      const profile = this.getSavedProfile();
+      if (profile) {
+        this.restoreProfile(profile);
+      } else if (this.calibrator.isActive()) {
+        // Samples from the previous device would skew the result
+        this.cancelCalibration('the microphone was switched');
+        this.startCalibration();
+      }
       
+      const label = stream.getAudioTracks()[0]?.label ?? '';
+      this.onMicrophoneChange?.(this.activeDeviceId, label, reason);
+    })();
+    
+    this.pendingMicrophoneSwitch = switching;
+    try {
+      await switching;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       this.onError?.(err);
       throw err;
+    } finally {
+      if (this.pendingMicrophoneSwitch === switching) {
+        this.pendingMicrophoneSwitch = null;
+      }
+    }
+  }
+
+  /**
+   * Update microphone constraints, re-acquiring the active input if needed
+   */
+  async setMicrophoneConstraints(constraints: MicrophoneConstraints): Promise<void> {
+    this.microphoneConstraints = { ...this.microphoneConstraints, ...constraints };
+    if (this.microphone) {
+      await this.switchMicrophone(this.microphoneConstraints.deviceId);
+    }
+  }
+
+  /**
+   * Device ID of the active microphone
+   */
+  getActiveMicrophoneId(): string | null {
+    return this.activeDeviceId;
+  }
+
+  /**
+   * Fall back to the default device when the active one goes away
+   */
+  private fallbackToDefaultMicrophone(reason: MicrophoneChangeReason): void {
+    if (this.pendingMicrophoneSwitch || !this.audioContext) return;
+    
+    console.warn(`Microphone ${reason}, falling back to default device`);
+    this.switchMicrophone(undefined, reason).catch(() => {
+      // Reported through onError
+    });
+  }
+
+  private handleTrackEnded = (): void => {
+    this.fallbackToDefaultMicrophone('ended');
+  };
+
+  private handleDeviceChange = async (): Promise<void> => {
+    if (!this.activeDeviceId) return;
+    
+    try {
+      const devices = await listAudioInputs();
+      if (!devices.some(device => device.deviceId === this.activeDeviceId)) {
+        this.fallbackToDefaultMicrophone('removed');
+      }
+    } catch (error) {
+      this.onError?.(error instanceof Error ? error : new Error(String(error)));
+    }
+  };
+
+  /**
+   * Create assistant context, analyser and audio element
+   */
+  private async setupAssistant(source?: ExternalAudioSource): Promise<void> {
+    this.assistantAudioContext = this.acquireContext(source);
+    
+    if (this.assistantAudioContext.state === 'suspended') {
+      await this.assistantAudioContext.resume();
+    }
+    
+    this.assistantAnalyser = this.assistantAudioContext.createAnalyser();
+    this.assistantAnalyser.fftSize = this.fftSize;
+    this.assistantAnalyser.smoothingTimeConstant = this.smoothingTimeConstant;
+    
+    this.assistantAudioElement = document.createElement('audio');
+    this.assistantAudioElement.crossOrigin = 'anonymous';
+    this.assistantAudioElement.controls = false;
+    
+    this.assistantTap = await this.createAnalysisTap(this.assistantAnalyser, (frame, timestamp) => {
+      this.handleAssistantFrame(frame, timestamp);
+    });
+  }
+
+  /**
+   * Start audio-thread analysis of an analyser's signal, or null to keep polling it
+   */
+  private async createAnalysisTap(
+    analyser: AnalyserNode,
+    onFrame: (frame: AnalysisFrame, timestamp: number) => void
+  ): Promise<AnalysisTap | null> {
+    if (!this.analysisWorklet) return null;
+    
+    const tap = await AnalysisTap.create(analyser, {
+      fftSize: this.fftSize,
+      smoothingTimeConstant: this.smoothingTimeConstant,
+      hopSize: this.analysisHopSize
+    }, onFrame);
+    
+    // Cleaned up while the worklet module was loading
+    if (tap && analyser !== this.analyser && analyser !== this.assistantAnalyser) {
+      tap.disconnect();
+      return null;
+    }
+    return tap;
+  }
+
+  /**
+   * Update audio-thread analysis settings (applies the next time audio starts)
+   */
+  configureAnalysis(settings: { worklet?: boolean; hopSize?: number }): void {
+    this.analysisWorklet = settings.worklet ?? this.analysisWorklet;
+    this.analysisHopSize = settings.hopSize ?? this.analysisHopSize;
+  }
+
+  /**
+   * Restore a saved profile, calibrate, or fall back to manual thresholds for a new input
+   */
+  private calibrateInput(): void {
+    const profile = this.getSavedProfile() ?? this.defaultProfile;
+    if (profile) {
+      this.restoreProfile(profile);
+    } else if (this.autoCalibration) {
+      this.startCalibration();
+    } else {
+      this.applyCalibration(this.manualCalibration);
+    }
+  }
+
+  /**
+   * Saved profile for the active microphone, if any
+   */
+  private getSavedProfile(): CalibrationData | null {
+    return this.activeDeviceId ? this.calibrationProfiles.get(this.activeDeviceId) ?? null : null;
+  }
+
+  /**
+   * Use a profile in place of calibrating
+   */
+  private restoreProfile(profile: CalibrationData): void {
+    this.cancelCalibration('a saved profile was used instead');
+    this.spectralBands.finishCalibration();
+    this.applyCalibration(profile);
+    this.onCalibrated?.(profile);
+  }
+
+  /**
+   * Set baseline, gain and thresholds
+   */
+  private applyCalibration(data: CalibrationData): void {
+    this.baselineNoise = data.baseline;
+    this.adaptiveGain = data.gain;
+    this.dynamicSensitivityThreshold = data.sensitivity;
+    this.dynamicLoudThreshold = data.loudThreshold;
+    this.dynamicVeryLoudThreshold = data.veryLoudThreshold;
+    if (data.bandFloors) {
+      this.spectralBands.setNoiseFloors(data.bandFloors);
+    }
+    this.noiseTracker.reset(data.baseline);
+  }
+
+  /**
+   * Follow the background noise between utterances, moving the baseline and thresholds together
+   */
+  private trackNoiseFloor(rawVolume: number, timestamp: number): void {
+    if (!this.noiseTracking || !this.autoCalibration) return;
+    // Speech and assistant echo would read as a rising floor
+    if (this.vad.isSpeaking() || (this.duplexActive && this.isPlaying())) return;
+    
+    const floor = this.noiseTracker.process(rawVolume, timestamp);
+    const delta = floor - this.baselineNoise;
+    this.baselineNoise = floor;
+    this.dynamicSensitivityThreshold += delta;
+    this.dynamicLoudThreshold += delta;
+    this.dynamicVeryLoudThreshold += delta;
+    
+    const previous = this.noiseTracker.takeShift();
+    if (previous !== null) {
+      this.onNoiseFloorChange?.(floor, previous);
     }
   }
 
+  /**
+   * Update background noise tracking
+   */
+  configureNoiseTracking(enabled: boolean, config: Partial<NoiseFloorConfig> = {}): void {
+    this.noiseTracking = enabled;
+    this.noiseTracker.configure(config);
+  }
+
   /**
    * Start calibration process
    */
   private startCalibration(): void {
-    this.isCalibrating = true;
-    this.calibrationSamples = [];
-    this.calibrationStartTime = performance.now();
+    this.calibrator.start(performance.now());
+    this.spectralBands.startCalibration();
+    this.onCalibrationStart?.();
+  }
+
+  /**
+   * Stop a running calibration without a result
+   */
+  private cancelCalibration(reason: string): void {
+    if (!this.calibrator.isActive()) return;
+    this.calibrator.cancel();
+    this.onCalibrationCancel?.(reason);
   }
 
   /**
    * Process calibration samples
    */
-  private processCalibration(volume: number): boolean {
-    if (!this.isCalibrating) return false;
+  private processCalibration(volume: number, timestamp: number): boolean {
+    const progress = this.calibrator.getProgress(timestamp);
+    const result = this.calibrator.process(volume, timestamp);
     
-    this.calibrationSamples.push(volume);
-    const elapsed = performance.now() - this.calibrationStartTime;
+    if (!result) {
+      this.onCalibrationProgress?.(progress, this.calibrator.getSampleCount());
+      return false; // Still calibrating
+    }
     
-    if (elapsed >= this.CALIBRATION_DURATION) {
-      // Calculate baseline noise from samples
-      this.calibrationSamples.sort((a, b) => a - b);
-      const median = this.calibrationSamples[Math.floor(this.calibrationSamples.length / 2)];
-      const p90 = this.calibrationSamples[Math.floor(this.calibrationSamples.length * 0.9)];
-      
-      this.baselineNoise = Math.max(0.01, median);
-      
-      // Set adaptive thresholds based on environment
-      this.dynamicSensitivityThreshold = this.baselineNoise + 0.03;
-      this.dynamicLoudThreshold = this.baselineNoise + 0.15;
-      this.dynamicVeryLoudThreshold = this.baselineNoise + 0.35;
-      
-      // Calculate adaptive gain to normalize volume range
-      const noiseRange = p90 - this.baselineNoise;
-      this.adaptiveGain = noiseRange > 0.05 ? 0.8 / noiseRange : 2.0;
-      this.adaptiveGain = Math.max(0.5, Math.min(this.adaptiveGain, 4.0));
-      
-      this.isCalibrating = false;
-      
-      console.log('Calibration complete!', {
-        baseline: this.baselineNoise,
-        gain: this.adaptiveGain,
-        sensitivity: this.dynamicSensitivityThreshold
-      });
-      
-      // Notify calibration complete
-      this.onCalibrated?.({
-        baseline: this.baselineNoise,
-        gain: this.adaptiveGain,
-        sensitivity: this.dynamicSensitivityThreshold,
-        loudThreshold: this.dynamicLoudThreshold,
-        veryLoudThreshold: this.dynamicVeryLoudThreshold
-      });
-      
-      return true; // Calibration complete
+    this.onCalibrationProgress?.(1, this.calibrator.getSampleCount());
+    this.spectralBands.finishCalibration();
+    this.applyCalibration(result);
+    
+    const data: CalibrationData = { ...result, bandFloors: this.spectralBands.getNoiseFloors() };
+    if (this.activeDeviceId) {
+      this.calibrationProfiles.set(this.activeDeviceId, data);
+    }
+    
+    console.log('Calibration complete!', {
+      baseline: data.baseline,
+      gain: data.gain,
+      sensitivity: data.sensitivity
+    });
+    
+    this.onCalibrated?.(data);
+    return true; // Calibration complete
+  }
+
+  /**
+   * Run calibration again on the active microphone input
+   */
+  recalibrate(): boolean {
+    if (!this.analyser) return false;
+    this.startCalibration();
+    return true;
+  }
+
+  /**
+   * Update calibration behaviour. Manual thresholds apply immediately while auto calibration is off.
+   */
+  configureCalibration(settings: {
+    calibration?: Partial<CalibrationConfig>;
+    autoCalibration?: boolean;
+    manualCalibration?: Partial<CalibrationData>;
+    calibrationProfile?: CalibrationData | null;
+  }): void {
+    if (settings.calibration) {
+      this.calibrator.configure(settings.calibration);
+    }
+    if (settings.manualCalibration) {
+      this.manualCalibration = { ...this.manualCalibration, ...settings.manualCalibration };
+    }
+    if (settings.calibrationProfile !== undefined) {
+      this.defaultProfile = settings.calibrationProfile;
+    }
+    if (settings.autoCalibration !== undefined) {
+      this.autoCalibration = settings.autoCalibration;
     }
     
-    return false; // Still calibrating
+    if (!this.autoCalibration && (settings.autoCalibration !== undefined || settings.manualCalibration)) {
+      if (this.calibrator.isActive()) {
+        this.cancelCalibration('auto calibration was turned off');
+        this.spectralBands.finishCalibration();
+      }
+      this.applyCalibration(this.manualCalibration);
+    }
+  }
+
+  /**
+   * Saved calibration profiles keyed by microphone device ID
+   */
+  exportCalibrationProfiles(): Record<string, CalibrationData> {
+    const profiles: Record<string, CalibrationData> = {};
+    this.calibrationProfiles.forEach((data, deviceId) => {
+      profiles[deviceId] = { ...data };
+    });
+    return profiles;
+  }
+
+  /**
+   * Load previously exported profiles; matching devices skip calibration on their next start
+   */
+  importCalibrationProfiles(profiles: Record<string, CalibrationData>): void {
+    Object.entries(profiles).forEach(([deviceId, data]) => {
+      this.calibrationProfiles.set(deviceId, { ...data });
+    });
   }
 
   /**
@@ -193,7 +806,7 @@ export class AudioPipeline {
     adjustedVolume *= this.adaptiveGain;
     
     // Continuous adaptation: adjust gain based on recent volume distribution
-    if (this.volumeHistory.length >= 50 && !this.isCalibrating) {
+    if (this.autoCalibration && this.volumeHistory.length >= 50 && !this.calibrator.isActive()) {
       const recentVolumes = this.volumeHistory.slice(-50);
       const avgRecent = recentVolumes.reduce((a, b) => a + b, 0) / recentVolumes.length;
       const targetRange = 0.3; // Target average volume
@@ -217,37 +830,279 @@ export class AudioPipeline {
       return Math.abs(Math.sin(performance.now() * 0.005)) * 0.3 + Math.random() * 0.1;
     }
     
-    const analyserToUse = mode === 'assistant' ? this.assistantAnalyser : this.analyser;
-    if (!analyserToUse) return 0;
+    if (mode === 'duplex') {
+      const volumes = this.getDuplexVolumes();
+      return Math.max(volumes.microphone, volumes.assistant);
+    }
     
-    const bufferLength = analyserToUse.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    analyserToUse.getByteFrequencyData(dataArray);
+    if (mode === 'assistant') {
+      return this.getAssistantVolume();
+    }
+    
+    return this.getMicrophoneVolume();
+  }
+
+  /**
+   * Get microphone and assistant volumes together (duplex mode).
+   * The microphone volume has the estimated assistant echo removed.
+   */
+  getDuplexVolumes(): { microphone: number; assistant: number } {
+    const assistant = this.getAssistantVolume();
+    const microphone = this.getMicrophoneVolume(this.echoSuppression ? assistant : undefined);
+    return { microphone, assistant };
+  }
+
+  /**
+   * Read byte frequency data from an analyser
+   */
+  private readFrequencyData(analyser: AnalyserNode): Uint8Array {
+    const dataArray = new Uint8Array(analyser.frequencyBinCount);
+    analyser.getByteFrequencyData(dataArray);
+    return dataArray;
+  }
+
+  /**
+   * Raw volume (0-1) under the configured volume model.
+   * Loudness is metered every frame so readings are available with any model.
+   */
+  private modelVolume(meter: LoudnessMeter, frequencyData: Uint8Array): number {
+    return this.loudnessConfig.model === 'spectral' ? this.averageVolume(frequencyData) : meter.getVolume();
+  }
+
+  /**
+   * Update loudness metering; switching volume model recalibrates an active microphone
+   */
+  configureLoudness(config: Partial<LoudnessConfig>): void {
+    const previousModel = this.loudnessConfig.model;
+    this.loudnessConfig = { ...this.loudnessConfig, ...config };
+    this.microphoneMeter.configure(this.loudnessConfig);
+    this.assistantMeter.configure(this.loudnessConfig);
+    
+    if (this.loudnessConfig.model !== previousModel && this.analyser && this.autoCalibration) {
+      this.recalibrate();
+    }
+  }
+
+  /**
+   * Latest loudness reading of a source, or null if it isn't active
+   */
+  getLoudness(source: 'microphone' | 'assistant'): LoudnessReading | null {
+    if (source === 'assistant') {
+      return this.assistantAnalyser ? this.assistantMeter.getReading() : null;
+    }
+    return this.analyser ? this.microphoneMeter.getReading() : null;
+  }
+
+  /**
+   * Estimate the pitch of the active source (microphone in duplex), or null when disabled
+   */
+  getPitch(mode: AudioMode): PitchReading | null {
+    if (!this.pitchEnabled) return null;
     
+    const analyser = mode === 'assistant' ? this.assistantAnalyser : this.analyser;
+    if (!analyser) return null;
+    
+    return this.pitchDetector.detect(this.getPitchTap(analyser));
+  }
+
+  /**
+   * Get or create a long-window analyser fed by the given analyser's pass-through output
+   */
+  private getPitchTap(analyser: AnalyserNode): AnalyserNode {
+    let tap = this.pitchTaps.get(analyser);
+    if (!tap) {
+      tap = analyser.context.createAnalyser();
+      tap.fftSize = this.PITCH_FFT_SIZE;
+      tap.smoothingTimeConstant = 0;
+      analyser.connect(tap);
+      this.pitchTaps.set(analyser, tap);
+    }
+    return tap;
+  }
+
+  /**
+   * Enable or disable pitch tracking and update its settings
+   */
+  configurePitch(enabled: boolean, config: Partial<PitchConfig> = {}): void {
+    this.pitchEnabled = enabled;
+    this.pitchDetector.configure(config);
+    if (!enabled) {
+      this.releasePitchTaps();
+    }
+  }
+
+  /**
+   * Disconnect pitch analysers
+   */
+  private releasePitchTaps(): void {
+    this.pitchTaps.forEach((tap, analyser) => {
+      try {
+        analyser.disconnect(tap);
+      } catch (e) {
+        // Context already closed
+      }
+    });
+    this.pitchTaps.clear();
+  }
+
+  /**
+   * Average byte frequency magnitude (0-1)
+   */
+  private averageVolume(dataArray: Uint8Array): number {
     let sum = 0;
-    for (let i = 0; i < bufferLength; i++) {
+    for (let i = 0; i < dataArray.length; i++) {
       sum += dataArray[i];
     }
     
-    const rawVolume = Math.min(sum / bufferLength / 255, 1);
+    return Math.min(sum / dataArray.length / 255, 1);
+  }
+
+  /**
+   * Get assistant playback volume
+   */
+  private getAssistantVolume(): number {
+    if (!this.assistantAnalyser) return 0;
+    
+    if (!this.assistantTap) {
+      this.assistantMeter.measure(this.assistantAnalyser, performance.now());
+      this.updateAssistantVolume(this.readFrequencyData(this.assistantAnalyser));
+    }
+    return this.lastAssistantVolume;
+  }
+
+  /**
+   * Meter an assistant frame from the audio thread
+   */
+  private handleAssistantFrame(frame: AnalysisFrame, timestamp: number): void {
+    const analyser = this.assistantAnalyser;
+    if (!analyser) return;
+    
+    this.assistantMeter.measureFrame(frame.timeData, frame.frequencyData, analyser.context.sampleRate, timestamp);
+    this.updateAssistantVolume(toByteFrequencyData(frame.frequencyData, analyser.minDecibels, analyser.maxDecibels));
+  }
+
+  /**
+   * Derive the assistant volume from a frame already metered
+   */
+  private updateAssistantVolume(frequencyData: Uint8Array): void {
+    const rawVolume = this.modelVolume(this.assistantMeter, frequencyData);
+    
+    // Assistant audio uses lighter processing (audio files don't need heavy filtering)
+    this.lastAssistantVolume = this.loudnessConfig.model === 'spectral' ? Math.min(rawVolume * 2.0, 1.0) : rawVolume;
+  }
+
+  /**
+   * Get microphone volume with calibration, adaptive gain and voice activity detection.
+   * With an audio-thread tap this is the latest processed frame; otherwise the analyser is polled.
+   */
+  private getMicrophoneVolume(echoReference?: number): number {
+    if (!this.analyser) return 0;
+    if (this.microphoneTap) return this.microphoneVolume;
+    
+    const timestamp = performance.now();
+    this.microphoneMeter.measure(this.analyser, timestamp);
+    return this.processMicrophoneFrame(this.readFrequencyData(this.analyser), timestamp, echoReference);
+  }
+
+  /**
+   * Process a microphone frame from the audio thread
+   */
+  private handleMicrophoneFrame(frame: AnalysisFrame, timestamp: number): void {
+    const analyser = this.analyser;
+    if (!analyser) return;
     
-    // Process calibration if active (only for microphone mode)
-    if (this.isCalibrating) {
-      const calibrationComplete = this.processCalibration(rawVolume);
+    this.microphoneMeter.measureFrame(frame.timeData, frame.frequencyData, analyser.context.sampleRate, timestamp);
+    const frequencyData = toByteFrequencyData(frame.frequencyData, analyser.minDecibels, analyser.maxDecibels);
+    const echoReference = this.duplexActive && this.echoSuppression ? this.lastAssistantVolume : undefined;
+    this.microphoneVolume = this.processMicrophoneFrame(frequencyData, timestamp, echoReference);
+  }
+
+  /**
+   * Run calibration, noise tracking, adaptive gain, echo removal and voice activity detection on one metered frame
+   */
+  private processMicrophoneFrame(frequencyData: Uint8Array, timestamp: number, echoReference?: number): number {
+    const rawVolume = this.modelVolume(this.microphoneMeter, frequencyData);
+    
+    // Process calibration if active
+    if (this.calibrator.isActive()) {
+      const calibrationComplete = this.processCalibration(rawVolume, timestamp);
       if (!calibrationComplete) {
         return 0; // Don't trigger animations during calibration
       }
     }
     
-    // For assistant mode, use lighter processing (audio files don't need heavy filtering)
-    if (mode === 'assistant') {
-      // Simple gain and clamp for audio files
-      const boostedVolume = Math.min(rawVolume * 2.0, 1.0);
-      return boostedVolume;
+    this.trackNoiseFloor(rawVolume, timestamp);
+    
+    // Apply adaptive processing
+    let processedVolume = this.processVolumeAdaptively(rawVolume);
+    
+    // Discount assistant audio picked up by the mic
+    if (echoReference !== undefined) {
+      processedVolume = this.echoEstimator.process(processedVolume, echoReference);
+    }
+    
+    const flatness = this.vad.usesSpectralFlatness()
+      ? computeSpectralFlatness(frequencyData, this.analyser!.minDecibels, this.analyser!.maxDecibels)
+      : undefined;
+    this.vad.process(processedVolume, this.dynamicSensitivityThreshold, timestamp, flatness);
+    
+    return processedVolume;
+  }
+
+  /**
+   * Update voice activity detection settings
+   */
+  configureVad(config: Partial<VadConfig>): void {
+    this.vad.configure(config);
+  }
+
+  /**
+   * Enable or disable echo discounting in duplex mode
+   */
+  setEchoSuppression(enabled: boolean): void {
+    this.echoSuppression = enabled;
+  }
+
+  /**
+   * Whether speech is currently detected on the microphone
+   */
+  isSpeaking(): boolean {
+    return this.vad.isSpeaking();
+  }
+
+  /**
+   * Get per-band spectral levels (0-1) from active audio source, smoothed over dtMs
+   */
+  getBandLevels(mode: AudioMode, dtMs?: number): Float32Array {
+    if (mode === 'test') {
+      // Simulate a moving spectral envelope for test mode
+      const now = performance.now();
+      const count = this.spectralBands.getBandCount();
+      const targets = new Float32Array(count);
+      for (let b = 0; b < count; b++) {
+        const envelope = Math.abs(Math.sin(now * 0.002 + b * 0.7));
+        targets[b] = envelope * (0.4 + Math.random() * 0.3) * (1 - b / (count * 1.5));
+      }
+      return this.spectralBands.processTargets(targets, dtMs);
+    }
+    
+    const analyserToUse = mode === 'assistant' ? this.assistantAnalyser : this.analyser;
+    const contextToUse = mode === 'assistant' ? this.assistantAudioContext : this.audioContext;
+    if (!analyserToUse || !contextToUse) {
+      return this.spectralBands.processTargets([], dtMs);
     }
     
-    // Apply adaptive processing (for microphone mode)
-    return this.processVolumeAdaptively(rawVolume);
+    const dataArray = new Uint8Array(analyserToUse.frequencyBinCount);
+    analyserToUse.getByteFrequencyData(dataArray);
+    
+    return this.spectralBands.process(dataArray, contextToUse.sampleRate, dtMs);
+  }
+
+  /**
+   * Update spectral band configuration
+   */
+  configureBands(config: Partial<SpectralBandConfig>): void {
+    this.spectralBands.configure(config);
   }
 
   /**
@@ -260,8 +1115,28 @@ export class AudioPipeline {
     
     try {
       const source = this.assistantAudioContext.createMediaElementSource(audioElement);
-      source.connect(this.assistantAnalyser);
-      source.connect(this.assistantAudioContext.destination);
+      // The element's own output is captured, so it must reach the destination to be heard
+      const outputs = [this.assistantAnalyser, this.assistantAudioContext.destination];
+      outputs.forEach(output => source.connect(output));
+      this.connectedSources.push({ node: source, outputs, ownsNode: true });
+      this.trackElementPlayback(audioElement);
+      return true;
+    } catch (error) {
+      this.onError?.(error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Add a host-provided MediaStream, track or AudioNode to the assistant analyser
+   */
+  connectSource(source: ExternalAudioSource, monitor: boolean = false): boolean {
+    if (!this.assistantAudioContext || !this.assistantAnalyser) {
+      return false;
+    }
+    
+    try {
+      this.attachSource(source, this.assistantAudioContext, this.assistantAnalyser, monitor);
       return true;
     } catch (error) {
       this.onError?.(error instanceof Error ? error : new Error(String(error)));
@@ -272,11 +1147,14 @@ export class AudioPipeline {
   /**
    * Process audio stream data for assistant mode
    */
-  processAudioStream(audioData: ArrayBuffer | AudioBuffer | string): void {
+  processAudioStream(audioData: ArrayBuffer | AudioBuffer | Int16Array | Float32Array | string, format?: PcmFormat): void {
     if (!this.assistantAudioContext) return;
     
     try {
-      if (audioData instanceof ArrayBuffer) {
+      if (format && !(audioData instanceof AudioBuffer)) {
+        // Raw PCM (or base64-encoded PCM) is scheduled gaplessly
+        this.getStreamPlayer()?.enqueue(audioData, format);
+      } else if (audioData instanceof ArrayBuffer) {
         this.assistantAudioContext.decodeAudioData(audioData.slice())
           .then(buffer => this.playAudioBuffer(buffer))
           .catch(error => this.onError?.(error));
@@ -295,34 +1173,185 @@ export class AudioPipeline {
     }
   }
 
+  /**
+   * Get or create the gapless PCM player for assistant audio
+   */
+  private getStreamPlayer(): PcmStreamPlayer | null {
+    if (!this.assistantAudioContext || !this.assistantAnalyser) return null;
+    
+    if (!this.streamPlayer) {
+      this.streamPlayer = new PcmStreamPlayer(
+        this.assistantAudioContext,
+        [this.assistantAnalyser, this.assistantAudioContext.destination],
+        {
+          jitterBufferMs: this.jitterBufferMs,
+          onSourceStart: () => this.beginPlayback(),
+          onSourceEnd: () => this.endPlayback(),
+          onUnderrun: (gapMs) => this.onUnderrun?.(gapMs),
+          onChunkEnd: (queueDepth) => this.onChunkEnd?.(queueDepth),
+          onDrained: () => this.onQueueDrained?.()
+        }
+      );
+      // Paused before the first chunk arrived: hold it like any other
+      if (this.playbackPaused) {
+        this.streamPlayer.pause();
+      }
+    }
+    return this.streamPlayer;
+  }
+
+  /**
+   * Signal that the current PCM stream is complete
+   */
+  endAudioStream(): void {
+    this.streamPlayer?.end();
+  }
+
   /**
    * Play audio buffer in assistant mode
    */
   private playAudioBuffer(buffer: AudioBuffer): void {
-    if (!this.assistantAudioContext || !this.assistantAnalyser) return;
-    
     try {
-      const source = this.assistantAudioContext.createBufferSource();
-      source.buffer = buffer;
-      source.connect(this.assistantAnalyser);
-      source.connect(this.assistantAudioContext.destination);
-      source.start(0);
+      // Queued behind any audio already playing so buffers don't overlap
+      this.getStreamPlayer()?.enqueueBuffer(buffer);
     } catch (error) {
       this.onError?.(error instanceof Error ? error : new Error(String(error)));
     }
   }
 
+  /**
+   * Fade out and flush queued assistant audio, returning the discarded duration in ms
+   */
+  interruptPlayback(fadeMs: number): number {
+    const discarded = this.streamPlayer ? this.streamPlayer.interrupt(fadeMs) * 1000 : 0;
+    
+    // Stop element playback as well
+    this.elementPlaybackHandlers.forEach((_handlers, element) => {
+      if (!element.paused) element.pause();
+    });
+    this.pausedElements = [];
+    this.playbackPaused = false;
+    
+    return discarded;
+  }
+
+  /**
+   * Pause assistant playback, keeping queued audio
+   */
+  async pausePlayback(): Promise<void> {
+    if (this.playbackPaused || !this.assistantAudioContext) return;
+    this.playbackPaused = true;
+    
+    this.pausedElements = [];
+    this.elementPlaybackHandlers.forEach((_handlers, element) => {
+      if (!element.paused) {
+        element.pause();
+        this.pausedElements.push(element);
+      }
+    });
+    
+    // The context may be shared with other audio, so it keeps running;
+    // the player stops its sources and reschedules the rest on resume
+    this.streamPlayer?.pause();
+  }
+
+  /**
+   * Resume paused assistant playback
+   */
+  async resumePlayback(): Promise<void> {
+    if (!this.playbackPaused || !this.assistantAudioContext) return;
+    this.playbackPaused = false;
+    
+    this.streamPlayer?.resume();
+    const elements = this.pausedElements;
+    this.pausedElements = [];
+    await Promise.all(elements.map(element => element.play().catch(error => this.onError?.(error))));
+  }
+
+  /**
+   * Whether assistant playback is paused
+   */
+  isPlaybackPaused(): boolean {
+    return this.playbackPaused;
+  }
+
+  /**
+   * Number of queued or playing assistant chunks
+   */
+  getQueueDepth(): number {
+    return this.streamPlayer?.getQueueDepth() ?? 0;
+  }
+
+  /**
+   * Milliseconds of assistant audio scheduled but not yet played
+   */
+  getBufferedDuration(): number {
+    return (this.streamPlayer?.getBufferedDuration() ?? 0) * 1000;
+  }
+
+  /**
+   * Follow play/pause/ended of a connected audio element
+   */
+  private trackElementPlayback(audioElement: HTMLAudioElement): void {
+    if (this.elementPlaybackHandlers.has(audioElement)) return;
+    
+    const handlers = {
+      playing: false,
+      start: () => {
+        if (handlers.playing) return;
+        handlers.playing = true;
+        this.beginPlayback();
+      },
+      end: () => {
+        if (!handlers.playing) return;
+        handlers.playing = false;
+        this.endPlayback();
+      }
+    };
+    
+    audioElement.addEventListener('playing', handlers.start);
+    audioElement.addEventListener('pause', handlers.end);
+    audioElement.addEventListener('ended', handlers.end);
+    this.elementPlaybackHandlers.set(audioElement, handlers);
+  }
+
+  /**
+   * Count a playback source as started
+   */
+  private beginPlayback(): void {
+    this.activePlaybackCount++;
+    if (this.activePlaybackCount === 1) {
+      this.onPlaybackStart?.();
+    }
+  }
+
+  /**
+   * Count a playback source as finished
+   */
+  private endPlayback(): void {
+    if (this.activePlaybackCount === 0) return;
+    this.activePlaybackCount--;
+    if (this.activePlaybackCount === 0) {
+      this.onPlaybackEnd?.();
+    }
+  }
+
+  /**
+   * Whether assistant audio is currently playing. Audio held by a pause doesn't count,
+   * so a user-initiated pause can't read as the assistant talking (barge-in, noise tracking).
+   */
+  isPlaying(): boolean {
+    return this.activePlaybackCount > 0 && !this.playbackPaused;
+  }
+
   /**
    * Get calibration status and progress
    */
   getCalibrationStatus(): { isCalibrating: boolean; progress: number; samplesCount: number } {
-    const elapsed = this.isCalibrating ? performance.now() - this.calibrationStartTime : 0;
-    const progress = Math.min(elapsed / this.CALIBRATION_DURATION, 1);
-    
     return {
-      isCalibrating: this.isCalibrating,
-      progress,
-      samplesCount: this.calibrationSamples.length
+      isCalibrating: this.calibrator.isActive(),
+      progress: this.calibrator.getProgress(performance.now()),
+      samplesCount: this.calibrator.getSampleCount()
     };
   }
 
@@ -343,38 +1372,44 @@ export class AudioPipeline {
    * Clean up audio resources
    */
   async cleanup(): Promise<void> {
-    this.isCalibrating = false;
-    this.calibrationSamples = [];
+    this.cancelCalibration('audio was stopped');
+    this.vad.reset();
+    this.duplexActive = false;
+    this.lastAssistantVolume = 0;
+    this.microphoneVolume = 0;
+    this.echoEstimator.reset();
+    
+    this.microphoneTap?.disconnect();
+    this.microphoneTap = null;
+    this.assistantTap?.disconnect();
+    this.assistantTap = null;
     
     // Cleanup microphone resources
-    if (this.microphone) {
-      try {
-        this.microphone.disconnect();
-      } catch (e) {
-        console.warn('Error disconnecting microphone:', e);
-      }
-      this.microphone = null;
-    }
+    navigator.mediaDevices?.removeEventListener?.('devicechange', this.handleDeviceChange);
+    this.releaseMicrophoneStream();
+    this.detachSources();
+    this.releasePitchTaps();
     
-    if (this.mediaStream) {
-      try {
-        this.mediaStream.getTracks().forEach(track => track.stop());
-      } catch (e) {
-        console.warn('Error stopping media tracks:', e);
-      }
-      this.mediaStream = null;
-    }
+    await this.releaseContext(this.audioContext, 'audio context');
+    this.audioContext = null;
     
-    if (this.audioContext && this.audioContext.state !== 'closed') {
-      try {
-        await this.audioContext.close();
-      } catch (e) {
-        console.warn('Error closing audio context:', e);
-      }
-      this.audioContext = null;
+    // Cleanup assistant audio resources
+    this.streamPlayer?.stop();
+    this.streamPlayer = null;
+    this.playbackPaused = false;
+    this.pausedElements = [];
+    
+    this.elementPlaybackHandlers.forEach((handlers, element) => {
+      element.removeEventListener('playing', handlers.start);
+      element.removeEventListener('pause', handlers.end);
+      element.removeEventListener('ended', handlers.end);
+    });
+    this.elementPlaybackHandlers.clear();
+    if (this.activePlaybackCount > 0) {
+      this.activePlaybackCount = 0;
+      this.onPlaybackEnd?.();
     }
     
-    // Cleanup assistant audio resources
     if (this.assistantAudioElement) {
       try {
         this.assistantAudioElement.pause();
@@ -385,24 +1420,17 @@ export class AudioPipeline {
       this.assistantAudioElement = null;
     }
     
-    if (this.assistantAudioContext && this.assistantAudioContext.state !== 'closed') {
-      try {
-        await this.assistantAudioContext.close();
-      } catch (e) {
-        console.warn('Error closing assistant audio context:', e);
-      }
-      this.assistantAudioContext = null;
-    }
+    await this.releaseContext(this.assistantAudioContext, 'assistant audio context');
+    this.assistantAudioContext = null;
     
     this.analyser = null;
     this.assistantAnalyser = null;
     
-    // Reset processing state
+    // Reset processing state; saved profiles are kept for the next start
     this.volumeHistory = [];
-    this.adaptiveGain = 1.0;
-    this.baselineNoise = 0.02;
-    this.dynamicSensitivityThreshold = 0.08;
-    this.dynamicLoudThreshold = 0.4;
-    this.dynamicVeryLoudThreshold = 0.7;
+    this.spectralBands.reset();
+    this.microphoneMeter.reset();
+    this.assistantMeter.reset();
+    this.applyCalibration(this.manualCalibration);
   }
 }
\ No newline at end of file
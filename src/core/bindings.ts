@@ -0,0 +1,178 @@
+import { VoiceOrbOptions, VoiceOrbEvents } from '../types.js';
+
+/**
+ * Value type of an option that can be expressed as an HTML attribute or framework prop
+ */
+export type OptionKind = 'string' | 'number' | 'boolean' | 'boolean-or-auto';
+
+// Options with primitive values, settable from markup
+export const SCALAR_OPTIONS: { [K in keyof VoiceOrbOptions]?: OptionKind } = {
+  radius: 'number',
+  padding: 'number',
+  color: 'string',
+  fillMode: 'string',
+  gradientType: 'string',
+  gradientAngle: 'number',
+  gradientVolumeShift: 'string',
+  gradientShiftAmount: 'number',
+  strokeWidth: 'number',
+  strokeColor: 'string',
+  opacity: 'number',
+  fftSize: 'number',
+  smoothingTimeConstant: 'number',
+  analysisWorklet: 'boolean',
+  analysisHopSize: 'number',
+  autoCalibration: 'boolean',
+  baselineNoise: 'number',
+  sensitivity: 'number',
+  loudThreshold: 'number',
+  veryLoudThreshold: 'number',
+  adaptiveGain: 'number',
+  volumeSmoothingMs: 'number',
+  volumeModel: 'string',
+  loudnessAttackMs: 'number',
+  loudnessReleaseMs: 'number',
+  loudnessFloorDb: 'number',
+  loudnessCeilingDb: 'number',
+  calibrationDurationMs: 'number',
+  calibrationBaselinePercentile: 'number',
+  calibrationRangePercentile: 'number',
+  noiseTracking: 'boolean',
+  noiseWindowMs: 'number',
+  noiseAdaptRate: 'number',
+  noiseShiftRatio: 'number',
+  deviceId: 'string',
+  echoCancellation: 'boolean',
+  noiseSuppression: 'boolean',
+  autoGainControl: 'boolean',
+  jitterBufferMs: 'number',
+  externalTimeoutMs: 'number',
+  externalDelayMs: 'number',
+  duplexUserColor: 'string',
+  echoSuppression: 'boolean',
+  vadEnabled: 'boolean',
+  vadOnRatio: 'number',
+  vadOffRatio: 'number',
+  vadHangoverMs: 'number',
+  vadMinSpeechMs: 'number',
+  vadMaxSpectralFlatness: 'number',
+  pointCount: 'number',
+  noiseIntensity: 'number',
+  noiseSpeed: 'number',
+  forceStrength: 'number',
+  forceDecayRate: 'number',
+  animationSpeed: 'number',
+  maxOffset: 'number',
+  fadeInMs: 'number',
+  fadeOutMs: 'number',
+  stateTransitionMs: 'number',
+  errorColor: 'string',
+  pitchTracking: 'boolean',
+  pitchMinHz: 'number',
+  pitchMaxHz: 'number',
+  pitchSmoothingMs: 'number',
+  pitchHueShift: 'number',
+  pitchDrift: 'number',
+  pitchSpawnAngle: 'boolean',
+  deformation: 'string',
+  bandCount: 'number',
+  minFrequency: 'number',
+  maxFrequency: 'number',
+  bandAttackMs: 'number',
+  bandReleaseMs: 'number',
+  spectralIntensity: 'number',
+  spectralMirror: 'boolean',
+  fpsLimit: 'number',
+  pauseWhenHidden: 'boolean',
+  adaptiveQuality: 'boolean',
+  frameBudgetMs: 'number',
+  offscreen: 'boolean',
+  workerUrl: 'string',
+  debug: 'boolean',
+  theme: 'string',
+  useCssVariables: 'boolean',
+  reducedMotion: 'boolean-or-auto',
+  reducedMotionStyle: 'string',
+  ariaLabel: 'string'
+};
+
+// Keyed by event so the compiler flags events missing from the list
+const EVENT_NAMES: Record<keyof VoiceOrbEvents, true> = {
+  volume: true,
+  calibrationstart: true,
+  calibrationprogress: true,
+  calibrationcomplete: true,
+  noisefloorchange: true,
+  modechange: true,
+  statechange: true,
+  tierchange: true,
+  speechstart: true,
+  speechend: true,
+  bargein: true,
+  underrun: true,
+  microphonechange: true,
+  playbackstart: true,
+  playbackend: true,
+  replayend: true,
+  chunkend: true,
+  queuedrained: true,
+  interrupted: true,
+  error: true
+};
+
+/**
+ * Every event a VoiceOrb emits
+ */
+export const ORB_EVENTS = Object.keys(EVENT_NAMES) as (keyof VoiceOrbEvents)[];
+
+/**
+ * Options that differ between two option sets, for setOptions().
+ * An option that is no longer given goes back to its default. Arrays and plain
+ * objects (gradient stops, calibration profiles) are compared by content, so
+ * passing an equal literal on every render doesn't reconfigure the orb.
+ * Defaults are passed in so the bindings don't pull in their own copy of the engine.
+ */
+export function diffOptions(
+  previous: VoiceOrbOptions,
+  next: VoiceOrbOptions,
+  defaultOptions: VoiceOrbOptions
+): Partial<VoiceOrbOptions> | null {
+  const defaults = defaultOptions as Record<string, unknown>;
+  const before = previous as Record<string, unknown>;
+  const after = next as Record<string, unknown>;
+  const changes: Record<string, unknown> = {};
+  let changed = false;
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const value = after[key] === undefined ? defaults[key] : after[key];
+    const previousValue = before[key] === undefined ? defaults[key] : before[key];
+    if (!sameValue(value, previousValue)) {
+      changes[key] = value;
+      changed = true;
+    }
+  }
+  return changed ? changes as Partial<VoiceOrbOptions> : null;
+}
+
+/**
+ * Equal primitives or instances, or arrays and plain objects with equal contents
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => sameValue(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && sameValue(a[key], b[key]));
+  }
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,119 @@
+import { CalibrationData } from '../types.js';
+import { clamp } from './utils.js';
+
+/**
+ * Calibration timing and percentile settings
+ */
+export interface CalibrationConfig {
+  durationMs: number;
+  // Percentile (0-1) of the samples taken as the noise baseline
+  baselinePercentile: number;
+  // Percentile (0-1) used to size the adaptive gain
+  rangePercentile: number;
+}
+
+/**
+ * Collects volume samples for a fixed duration and derives thresholds from their percentiles
+ */
+export class Calibrator {
+  private config: CalibrationConfig;
+  private samples: number[] = [];
+  private startTime: number = 0;
+  private active: boolean = false;
+
+  constructor(config: CalibrationConfig) {
+    this.config = { ...config };
+  }
+
+  /**
+   * Update calibration settings (applies to the next run)
+   */
+  configure(config: Partial<CalibrationConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Begin collecting samples
+   */
+  start(timestamp: number): void {
+    this.active = true;
+    this.samples = [];
+    this.startTime = timestamp;
+  }
+
+  /**
+   * Add a sample, returning the result once the duration has elapsed
+   */
+  process(volume: number, timestamp: number): CalibrationData | null {
+    if (!this.active) return null;
+
+    this.samples.push(volume);
+    if (timestamp - this.startTime < this.config.durationMs) {
+      return null;
+    }
+
+    this.active = false;
+    return deriveCalibration(this.samples, this.config);
+  }
+
+  /**
+   * Stop without producing a result
+   */
+  cancel(): void {
+    this.active = false;
+    this.samples = [];
+  }
+
+  /**
+   * Whether samples are being collected
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Fraction of the calibration duration elapsed (0-1)
+   */
+  getProgress(timestamp: number): number {
+    if (!this.active) return 0;
+    if (this.config.durationMs <= 0) return 1;
+    return Math.min((timestamp - this.startTime) / this.config.durationMs, 1);
+  }
+
+  /**
+   * Number of samples collected in the current run
+   */
+  getSampleCount(): number {
+    return this.samples.length;
+  }
+}
+
+/**
+ * Value at a percentile (0-1) of ascending sorted samples
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.floor(clamp(p, 0, 1) * (sorted.length - 1));
+  return sorted[index];
+}
+
+/**
+ * Derive baseline, gain and thresholds from calibration samples
+ */
+function deriveCalibration(samples: number[], config: CalibrationConfig): CalibrationData {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const baseline = Math.max(0.01, percentile(sorted, config.baselinePercentile));
+  const upper = percentile(sorted, config.rangePercentile);
+
+  // Normalize the volume range above the noise baseline
+  const noiseRange = upper - baseline;
+  const gain = clamp(noiseRange > 0.05 ? 0.8 / noiseRange : 2.0, 0.5, 4.0);
+
+  return {
+    baseline,
+    gain,
+    sensitivity: baseline + 0.03,
+    loudThreshold: baseline + 0.15,
+    veryLoudThreshold: baseline + 0.35
+  };
+}
@@ -0,0 +1,28 @@
+import { MicrophoneConstraints } from '../types.js';
+
+/**
+ * List available audio input devices.
+ * Labels are empty until microphone permission has been granted.
+ */
+export async function listAudioInputs(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'audioinput');
+}
+
+/**
+ * Build getUserMedia audio constraints
+ */
+export function buildAudioConstraints(constraints: MicrophoneConstraints): MediaTrackConstraints {
+  const audio: MediaTrackConstraints = {
+    echoCancellation: constraints.echoCancellation ?? false,
+    noiseSuppression: constraints.noiseSuppression ?? false,
+    autoGainControl: constraints.autoGainControl ?? false
+  };
+  if (constraints.deviceId) {
+    audio.deviceId = { exact: constraints.deviceId };
+  }
+  return audio;
+}
@@ -0,0 +1,46 @@
+import { clamp } from './utils.js';
+
+/**
+ * Estimates how much assistant playback leaks into the microphone and removes it.
+ *
+ * The mic level during playback is echo plus any user speech, so the echo
+ * coupling is tracked as the lower envelope of mic/assistant: it drops quickly
+ * toward smaller ratios and only creeps up slowly.
+ */
+export class EchoEstimator {
+  private coupling: number = 0.5;
+
+  // Assistant level below which no coupling is learned
+  private readonly MIN_REFERENCE = 0.05;
+  private readonly FALL_RATE = 0.2;
+  private readonly RISE_RATE = 0.002;
+  // Safety margin applied when subtracting the estimated echo
+  private readonly MARGIN = 1.2;
+
+  /**
+   * Update the estimate and return the mic level with echo removed
+   */
+  process(microphoneVolume: number, assistantVolume: number): number {
+    if (assistantVolume > this.MIN_REFERENCE) {
+      const ratio = clamp(microphoneVolume / assistantVolume, 0, 2);
+      const rate = ratio < this.coupling ? this.FALL_RATE : this.RISE_RATE;
+      this.coupling += (ratio - this.coupling) * rate;
+    }
+
+    return Math.max(0, microphoneVolume - this.coupling * this.MARGIN * assistantVolume);
+  }
+
+  /**
+   * Get the current echo coupling estimate
+   */
+  getCoupling(): number {
+    return this.coupling;
+  }
+
+  /**
+   * Forget the learned coupling
+   */
+  reset(): void {
+    this.coupling = 0.5;
+  }
+}
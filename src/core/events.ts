@@ -0,0 +1,85 @@
+// once() wrappers point back at the handler they wrap, so off() can find them
+type Listener<T> = ((payload: T) => void) & { listener?: (payload: T) => void };
+
+/**
+ * Minimal typed event emitter
+ */
+export class EventEmitter<Events extends { [K in keyof Events]: unknown }> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  /**
+   * Add a listener, returning a function that removes it
+   */
+  on<K extends keyof Events>(event: K, handler: (payload: Events[K]) => void): () => void {
+    let handlers = this.listeners[event];
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners[event] = handlers;
+    }
+    handlers.add(handler);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Add a listener that is removed after its first call
+   */
+  once<K extends keyof Events>(event: K, handler: (payload: Events[K]) => void): () => void {
+    const wrapper: Listener<Events[K]> = (payload: Events[K]) => {
+      this.listeners[event]?.delete(wrapper);
+      handler(payload);
+    };
+    wrapper.listener = handler;
+    this.on(event, wrapper);
+    return () => this.listeners[event]?.delete(wrapper);
+  }
+
+  /**
+   * Remove a listener, whether added with on() or once()
+   */
+  off<K extends keyof Events>(event: K, handler: (payload: Events[K]) => void): void {
+    const handlers = this.listeners[event];
+    if (!handlers || handlers.delete(handler)) return;
+
+    for (const wrapper of Array.from(handlers)) {
+      if (wrapper.listener === handler) {
+        handlers.delete(wrapper);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Call all listeners for an event; a throwing listener doesn't stop the others
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const handlers = this.listeners[event];
+    if (!handlers || handlers.size === 0) return;
+
+    // Copy so listeners can unsubscribe while being called
+    Array.from(handlers).forEach(handler => {
+      try {
+        handler(payload);
+      } catch (e) {
+        console.error(`Error in "${String(event)}" listener:`, e);
+      }
+    });
+  }
+
+  /**
+   * Whether an event has any listeners
+   */
+  hasListeners<K extends keyof Events>(event: K): boolean {
+    return (this.listeners[event]?.size ?? 0) > 0;
+  }
+
+  /**
+   * Remove all listeners, or all listeners of one event
+   */
+  removeAllListeners<K extends keyof Events>(event?: K): void {
+    if (event === undefined) {
+      this.listeners = {};
+    } else {
+      delete this.listeners[event];
+    }
+  }
+}
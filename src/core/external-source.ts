@@ -0,0 +1,159 @@
+import { clamp } from './utils.js';
+
+/**
+ * External volume settings
+ */
+export interface ExternalSourceConfig {
+  // Without a sample newer than this the volume drops to 0
+  timeoutMs: number;
+  // Sample this far in the past so live pushes have a later sample to interpolate toward
+  delayMs: number;
+}
+
+/**
+ * Volume supplied by the host instead of Web Audio: individual pushes and sampled
+ * envelopes on the performance.now() clock.
+ *
+ * Samples are kept in time order. Reading between two samples interpolates linearly.
+ * Once the read position reaches the newest sample (always the case for live pushes
+ * without a delay) the value ramps toward it from what was last read, over the observed
+ * interval between samples, and is then held until it goes stale.
+ */
+export class ExternalSource {
+  private config: ExternalSourceConfig;
+  private times: number[] = [];
+  private values: number[] = [];
+
+  // Spacing of the latest samples, the length of a ramp
+  private interval: number = 0;
+  private lastVolume: number = 0;
+  // Sample the last read interpolated toward, which needs no ramp once reached
+  private approaching: number | null = null;
+  // Ramp toward the sample at rampTarget, started at rampStart from rampFrom
+  private rampTarget: number | null = null;
+  private rampStart: number = 0;
+  private rampFrom: number = 0;
+
+  constructor(config: ExternalSourceConfig) {
+    this.config = { ...config };
+  }
+
+  /**
+   * Update timeout and delay
+   */
+  configure(config: Partial<ExternalSourceConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Add one volume sample (0-1). Non-finite values or timestamps are ignored.
+   */
+  push(value: number, timestamp: number): void {
+    if (!Number.isFinite(value) || !Number.isFinite(timestamp)) return;
+
+    // Usually appended; late arrivals are inserted in order
+    let index = this.times.length;
+    if (index > 0 && timestamp > this.times[index - 1] && timestamp - this.times[index - 1] <= this.config.timeoutMs) {
+      this.interval = timestamp - this.times[index - 1];
+    }
+    while (index > 0 && this.times[index - 1] > timestamp) {
+      index--;
+    }
+    this.times.splice(index, 0, timestamp);
+    this.values.splice(index, 0, clamp(value, 0, 1));
+    this.prune(performance.now() - this.config.delayMs);
+  }
+
+  /**
+   * Replace everything from startTime on with evenly spaced samples
+   */
+  setEnvelope(samples: ArrayLike<number>, sampleRate: number, startTime: number): void {
+    if (!(sampleRate > 0) || !Number.isFinite(sampleRate)) {
+      throw new Error('Envelope sample rate must be positive');
+    }
+    if (!Number.isFinite(startTime)) {
+      throw new Error('Envelope start time must be finite');
+    }
+    for (let i = 0; i < samples.length; i++) {
+      if (!Number.isFinite(samples[i])) {
+        throw new Error(`Envelope sample ${i} is not a finite number`);
+      }
+    }
+
+    let keep = this.times.length;
+    while (keep > 0 && this.times[keep - 1] >= startTime) {
+      keep--;
+    }
+    this.times.length = keep;
+    this.values.length = keep;
+
+    const interval = 1000 / sampleRate;
+    if (samples.length > 1) {
+      this.interval = interval;
+    }
+    for (let i = 0; i < samples.length; i++) {
+      this.times.push(startTime + i * interval);
+      this.values.push(clamp(samples[i], 0, 1));
+    }
+    this.prune(performance.now() - this.config.delayMs);
+  }
+
+  /**
+   * Volume at a time, 0 before the first sample or once the latest one is stale
+   */
+  getVolume(timestamp: number): number {
+    this.lastVolume = this.sample(timestamp - this.config.delayMs);
+    return this.lastVolume;
+  }
+
+  private sample(time: number): number {
+    this.prune(time);
+
+    // After pruning, only the first sample can be at or before the time
+    if (this.times.length === 0 || this.times[0] > time) return 0;
+
+    // Gaps longer than the timeout aren't bridged: ramp and hold, then rest until the next sample
+    const span = this.times.length > 1 ? this.times[1] - this.times[0] : Infinity;
+    if (span > this.config.timeoutMs) {
+      if (time - this.times[0] > this.config.timeoutMs) return 0;
+
+      if (this.rampTarget !== this.times[0]) {
+        this.rampTarget = this.times[0];
+        this.rampStart = time;
+        this.rampFrom = this.approaching === this.times[0] ? this.values[0] : this.lastVolume;
+      }
+      const progress = this.interval > 0 ? Math.min((time - this.rampStart) / this.interval, 1) : 1;
+      return this.rampFrom + (this.values[0] - this.rampFrom) * progress;
+    }
+
+    this.approaching = this.times[1];
+    const t = span > 0 ? (time - this.times[0]) / span : 1;
+    return this.values[0] + (this.values[1] - this.values[0]) * t;
+  }
+
+  /**
+   * Drop samples before the last one at or before a time
+   */
+  private prune(time: number): void {
+    let drop = 0;
+    while (drop + 1 < this.times.length && this.times[drop + 1] <= time) {
+      drop++;
+    }
+    if (drop > 0) {
+      this.times.splice(0, drop);
+      this.values.splice(0, drop);
+    }
+  }
+
+  /**
+   * Forget all samples
+   */
+  reset(): void {
+    this.times = [];
+    this.values = [];
+    this.interval = 0;
+    this.lastVolume = 0;
+    this.rampTarget = null;
+    this.approaching = null;
+  }
+}
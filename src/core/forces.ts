@@ -1,4 +1,7 @@
 import { InternalForce, NoisePoint } from '../types.js';
+import { REFERENCE_FRAME_MS } from './utils.js';
+
+const TWO_PI = Math.PI * 2;
 
 /**
  * Manages internal forces that create organic blob deformation
@@ -7,6 +10,11 @@ export class ForceSystem {
   private forces: InternalForce[] = [];
   private sensitivity: number;
   private fadeMultiplier: number;
+  // Preferred angle for audio-driven forces (null = random)
+  private spawnAngle: number | null = null;
+
+  // Random spread around a preferred spawn angle (radians)
+  private readonly SPAWN_SPREAD = 0.6;
 
   constructor(sensitivity: number = 0.05) {
     this.sensitivity = sensitivity;
@@ -14,23 +22,26 @@ export class ForceSystem {
   }
 
   /**
-   * Update force system based on audio volume
+   * Update force system based on audio volume and elapsed time (ms)
    */
-  update(smoothedVolume: number, dynamicSensitivityThreshold: number): void {
+  update(smoothedVolume: number, dynamicSensitivityThreshold: number, dtMs: number = REFERENCE_FRAME_MS): void {
     // Remove expired forces
     this.forces = this.forces.filter(force => force.life > 0);
 
     // Only create forces if above dynamic sensitivity threshold
     if (smoothedVolume > dynamicSensitivityThreshold) {
-      // Create new forces based on audio level
+      // Creation rate is forces per reference frame; convert to a probability for this step
       const creationRate = (smoothedVolume - dynamicSensitivityThreshold) * 0.5;
-      if (Math.random() < creationRate) {
+      const spawnProbability = 1 - Math.exp(-creationRate * dtMs / REFERENCE_FRAME_MS);
+      if (Math.random() < spawnProbability) {
         const newForce: InternalForce = {
-          angle: Math.random() * Math.PI * 2,
+          angle: this.spawnAngle !== null
+            ? this.spawnAngle + (Math.random() - 0.5) * this.SPAWN_SPREAD
+            : Math.random() * Math.PI * 2,
           strength: 10 + (smoothedVolume - dynamicSensitivityThreshold) * 50,
           life: 1.0,
-          decay: 0.008 + Math.random() * 0.012,
-          speed: 0.3 + Math.random() * 1.0,
+          decay: 0.48 + Math.random() * 0.72,
+          speed: 18 + Math.random() * 60,
           distance: 0,
           maxDistance: 20 + (smoothedVolume - dynamicSensitivityThreshold) * 60
         };
@@ -39,13 +50,29 @@ export class ForceSystem {
     }
 
     // Update existing forces with enhanced fading
+    const dtSeconds = dtMs / 1000;
     this.forces.forEach(force => {
       const baseDecay = smoothedVolume < dynamicSensitivityThreshold ? 2.5 : 1;
       const fadeDecay = (1 - this.fadeMultiplier) * 2;
-      force.life -= force.decay * (baseDecay + fadeDecay);
-      force.distance += force.speed;
+      force.life -= force.decay * (baseDecay + fadeDecay) * dtSeconds;
+      force.distance += force.speed * dtSeconds;
       force.distance = Math.min(force.distance, force.maxDistance);
-      force.angle += 0.005; // Slight rotation
+      force.angle += 0.3 * dtSeconds; // Slight rotation
+    });
+  }
+
+  /**
+   * Add a force at a specific angle (used for state-driven animation without audio)
+   */
+  addForce(angle: number, strength: number): void {
+    this.forces.push({
+      angle,
+      strength,
+      life: 1.0,
+      decay: 0.9 + Math.random() * 0.3,
+      speed: 40 + Math.random() * 20,
+      distance: 0,
+      maxDistance: 15 + strength
     });
   }
 
@@ -56,9 +83,9 @@ export class ForceSystem {
     let totalInfluence = 0;
 
     this.forces.forEach(force => {
-      // Calculate angular distance
-      let angleDiff = Math.abs(angle - force.angle);
-      if (angleDiff > Math.PI) angleDiff = Math.PI * 2 - angleDiff;
+      // Angular distance in [0, PI]; spawn angles and rotation aren't kept within one turn
+      let angleDiff = ((angle - force.angle) % TWO_PI + TWO_PI) % TWO_PI;
+      if (angleDiff > Math.PI) angleDiff = TWO_PI - angleDiff;
 
       // Force influence decreases with angular distance
       const angularFalloff = Math.max(0, 1 - (angleDiff / (Math.PI * 0.4)));
@@ -73,6 +100,13 @@ export class ForceSystem {
     return totalInfluence;
   }
 
+  /**
+   * Spawn audio-driven forces around an angle instead of at random (null restores random)
+   */
+  setSpawnAngle(angle: number | null): void {
+    this.spawnAngle = angle;
+  }
+
   /**
    * Set fade multiplier for smooth transitions
    */
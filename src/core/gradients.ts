@@ -0,0 +1,65 @@
+import { GradientStop } from '../types.js';
+import { clamp, RenderContext } from './utils.js';
+
+/**
+ * Geometry and reactivity inputs for building a gradient fill
+ */
+export interface GradientParams {
+  type: 'radial' | 'linear' | 'conic';
+  stops: GradientStop[];
+  centerX: number;
+  centerY: number;
+  radius: number;
+  angle: number;
+  volume: number;
+  volumeShift: 'none' | 'stops' | 'center';
+  shiftAmount: number;
+  // Offset of the moving orb from its resting position
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Build a canvas gradient around the current orb center and radius
+ */
+export function createOrbGradient(ctx: RenderContext, params: GradientParams): CanvasGradient {
+  const { centerX, centerY, radius } = params;
+  const shift = clamp(params.volume * params.shiftAmount, 0, 1);
+  const angleShift = params.volumeShift === 'center' ? shift * Math.PI : 0;
+  const angle = (params.angle * Math.PI) / 180 + angleShift;
+
+  let gradient: CanvasGradient;
+
+  if (params.type === 'linear') {
+    const dx = Math.cos(angle) * radius;
+    const dy = Math.sin(angle) * radius;
+    gradient = ctx.createLinearGradient(centerX - dx, centerY - dy, centerX + dx, centerY + dy);
+  } else if (params.type === 'conic' && typeof ctx.createConicGradient === 'function') {
+    gradient = ctx.createConicGradient(angle, centerX, centerY);
+  } else {
+    // Radial (also the fallback where conic gradients are unsupported)
+    let focusX = centerX;
+    let focusY = centerY;
+    if (params.volumeShift === 'center') {
+      // Lean the highlight toward the direction the orb is drifting
+      const distance = Math.hypot(params.offsetX, params.offsetY);
+      if (distance > 0) {
+        const reach = shift * radius * 0.5;
+        focusX += (params.offsetX / distance) * reach;
+        focusY += (params.offsetY / distance) * reach;
+      }
+    }
+    gradient = ctx.createRadialGradient(focusX, focusY, 0, centerX, centerY, Math.max(radius, 1));
+  }
+
+  for (const stop of params.stops) {
+    let offset = clamp(stop.offset, 0, 1);
+    if (params.volumeShift === 'stops') {
+      // Push stops outward so the inner colors swell with volume
+      offset = shift * 0.9 + offset * (1 - shift * 0.9);
+    }
+    gradient.addColorStop(offset, stop.color);
+  }
+
+  return gradient;
+}
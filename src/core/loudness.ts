@@ -0,0 +1,220 @@
+import { LoudnessReading, VolumeModel } from '../types.js';
+import { clamp, damp } from './utils.js';
+
+/**
+ * Loudness metering settings
+ */
+export interface LoudnessConfig {
+  model: VolumeModel;
+  attackMs: number;
+  releaseMs: number;
+  // Level range mapped to 0-1 volume by the dB-based models
+  floorDb: number;
+  ceilingDb: number;
+}
+
+const MIN_DB = -100;
+// Mean of the squared Blackman window the analyser applies before its FFT
+const BLACKMAN_POWER = 0.3046;
+// Longest step credited to the envelopes after a stall
+const MAX_STEP_MS = 100;
+
+/**
+ * Measures RMS, peak and frequency-weighted loudness of an analyser's signal.
+ *
+ * RMS and peak come from the float time-domain buffer. Weighted loudness sums
+ * the float spectrum with A- or K-weighting applied per bin, scaled so that all
+ * readings share the dBFS reference of the RMS level. Each reading follows an
+ * attack/release envelope in the dB domain.
+ */
+export class LoudnessMeter {
+  private config: LoudnessConfig;
+  // Typed by inference so they stay assignable to the analyser getters
+  private timeData = new Float32Array(0);
+  private frequencyData = new Float32Array(0);
+
+  // Per-bin linear power weights, rebuilt when the analyser layout changes
+  private aWeights: Float32Array = new Float32Array(0);
+  private kWeights: Float32Array = new Float32Array(0);
+  private weightsSampleRate: number = 0;
+
+  private reading: LoudnessReading = createSilentReading();
+  private lastTimestamp: number | null = null;
+
+  constructor(config: LoudnessConfig) {
+    this.config = { ...config };
+  }
+
+  /**
+   * Update metering settings
+   */
+  configure(config: Partial<LoudnessConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Take one measurement from the analyser and advance the envelopes
+   */
+  measure(analyser: AnalyserNode, timestamp: number): LoudnessReading {
+    if (this.timeData.length !== analyser.fftSize) {
+      this.timeData = new Float32Array(analyser.fftSize);
+    }
+    if (this.frequencyData.length !== analyser.frequencyBinCount) {
+      this.frequencyData = new Float32Array(analyser.frequencyBinCount);
+    }
+
+    analyser.getFloatTimeDomainData(this.timeData);
+    analyser.getFloatFrequencyData(this.frequencyData);
+    return this.measureFrame(this.timeData, this.frequencyData, analyser.context.sampleRate, timestamp);
+  }
+
+  /**
+   * Measure time-domain samples and their dB spectrum (as an analyser reads them) and advance the envelopes
+   */
+  measureFrame(timeData: Float32Array, frequencyData: Float32Array, sampleRate: number, timestamp: number): LoudnessReading {
+    const dtMs = this.lastTimestamp === null ? MAX_STEP_MS : clamp(timestamp - this.lastTimestamp, 0, MAX_STEP_MS);
+    this.lastTimestamp = timestamp;
+
+    if (this.aWeights.length !== frequencyData.length || this.weightsSampleRate !== sampleRate) {
+      this.buildWeights(frequencyData.length, sampleRate);
+    }
+
+    let sumSquares = 0;
+    let peak = 0;
+    for (let i = 0; i < timeData.length; i++) {
+      const sample = timeData[i];
+      sumSquares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    const rmsDb = toDb(Math.sqrt(sumSquares / timeData.length));
+    const peakDb = toDb(peak);
+
+    // Parseval: the one-sided spectrum holds half the windowed signal power
+    let aPower = 0;
+    let kPower = 0;
+    for (let i = 0; i < frequencyData.length; i++) {
+      const power = Math.pow(10, frequencyData[i] / 10);
+      aPower += power * this.aWeights[i];
+      kPower += power * this.kWeights[i];
+    }
+    const scale = 2 / BLACKMAN_POWER;
+    const aWeightedDb = powerToDb(aPower * scale);
+    const kWeightedDb = powerToDb(kPower * scale);
+
+    const previous = this.reading;
+    const smoothedRmsDb = this.follow(previous.rmsDb, rmsDb, dtMs);
+    const smoothedPeakDb = this.follow(previous.peakDb, peakDb, dtMs);
+    this.reading = {
+      rms: Math.pow(10, smoothedRmsDb / 20),
+      peak: Math.pow(10, smoothedPeakDb / 20),
+      rmsDb: smoothedRmsDb,
+      peakDb: smoothedPeakDb,
+      aWeightedDb: this.follow(previous.aWeightedDb, aWeightedDb, dtMs),
+      kWeightedDb: this.follow(previous.kWeightedDb, kWeightedDb, dtMs)
+    };
+    return this.reading;
+  }
+
+  /**
+   * Attack/release envelope step
+   */
+  private follow(current: number, target: number, dtMs: number): number {
+    const timeConstant = target > current ? this.config.attackMs : this.config.releaseMs;
+    return damp(current, target, timeConstant, dtMs);
+  }
+
+  /**
+   * Latest smoothed reading
+   */
+  getReading(): LoudnessReading {
+    return { ...this.reading };
+  }
+
+  /**
+   * Latest reading under the configured model, mapped from floorDb..ceilingDb to 0-1
+   */
+  getVolume(): number {
+    const db = this.getModelDb();
+    const range = Math.max(this.config.ceilingDb - this.config.floorDb, 1);
+    return clamp((db - this.config.floorDb) / range, 0, 1);
+  }
+
+  /**
+   * Level in dB of the configured model
+   */
+  private getModelDb(): number {
+    switch (this.config.model) {
+      case 'peak':
+        return this.reading.peakDb;
+      case 'a-weighted':
+        return this.reading.aWeightedDb;
+      case 'k-weighted':
+        return this.reading.kWeightedDb;
+      default:
+        return this.reading.rmsDb;
+    }
+  }
+
+  /**
+   * Precompute weighting curves for the analyser's bins
+   */
+  private buildWeights(binCount: number, sampleRate: number): void {
+    this.aWeights = new Float32Array(binCount);
+    this.kWeights = new Float32Array(binCount);
+    this.weightsSampleRate = sampleRate;
+
+    const binWidth = sampleRate / (binCount * 2);
+    for (let i = 0; i < binCount; i++) {
+      const frequency = i * binWidth;
+      this.aWeights[i] = aWeightingPower(frequency);
+      this.kWeights[i] = kWeightingPower(frequency);
+    }
+  }
+
+  /**
+   * Drop envelope state
+   */
+  reset(): void {
+    this.reading = createSilentReading();
+    this.lastTimestamp = null;
+  }
+}
+
+function createSilentReading(): LoudnessReading {
+  return { rms: 0, peak: 0, rmsDb: MIN_DB, peakDb: MIN_DB, aWeightedDb: MIN_DB, kWeightedDb: MIN_DB };
+}
+
+function toDb(amplitude: number): number {
+  return amplitude > 0 ? Math.max(20 * Math.log10(amplitude), MIN_DB) : MIN_DB;
+}
+
+function powerToDb(power: number): number {
+  return power > 0 ? Math.max(10 * Math.log10(power), MIN_DB) : MIN_DB;
+}
+
+/**
+ * IEC 61672 A-weighting as a linear power gain (0 dB at 1 kHz)
+ */
+function aWeightingPower(frequency: number): number {
+  if (frequency <= 0) return 0;
+  const f2 = frequency * frequency;
+  const numerator = 12194 * 12194 * f2 * f2;
+  const denominator = (f2 + 20.6 * 20.6) *
+    Math.sqrt((f2 + 107.7 * 107.7) * (f2 + 737.9 * 737.9)) *
+    (f2 + 12194 * 12194);
+  const gain = (numerator / denominator) * Math.pow(10, 2.0 / 20);
+  return gain * gain;
+}
+
+/**
+ * ITU-R BS.1770 K-weighting (high shelf + RLB high-pass) as a linear power gain
+ */
+function kWeightingPower(frequency: number): number {
+  if (frequency <= 0) return 0;
+  // +4 dB shelf centred around 1.7 kHz
+  const shelfX = Math.pow(frequency / 1682, 2);
+  const shelf = (1 + Math.pow(10, 4 / 10) * shelfX) / (1 + shelfX);
+  // Second-order high-pass at 38 Hz
+  const highPass = Math.pow(frequency, 4) / (Math.pow(frequency, 4) + Math.pow(38, 4));
+  return shelf * highPass;
+}
@@ -0,0 +1,112 @@
+import { clamp } from './utils.js';
+
+/**
+ * Background noise tracking settings
+ */
+export interface NoiseFloorConfig {
+  // Span of the minimum search
+  windowMs: number;
+  // Maximum baseline change per second
+  maxRatePerSecond: number;
+  minFloor: number;
+  maxFloor: number;
+  // Relative change from the last reported floor that counts as a shift
+  shiftRatio: number;
+}
+
+/**
+ * Minimum-statistics noise floor estimator.
+ *
+ * The minimum of the input over a sliding window (kept as per-subwindow minima)
+ * follows the noise level while ignoring short loud events. The estimate is
+ * bias-corrected and approached at a bounded rate so the floor can't jump.
+ */
+export class NoiseFloorTracker {
+  private config: NoiseFloorConfig;
+  private floor: number;
+  private reportedFloor: number;
+  private subwindowMinima: number[] = [];
+  private currentMinimum: number = Infinity;
+  private subwindowStart: number | null = null;
+  private lastTimestamp: number | null = null;
+
+  private readonly SUBWINDOWS = 8;
+  // The minimum of a fluctuating noise level sits below its typical value
+  private readonly BIAS = 1.5;
+  // Longest step credited after a gap (e.g. while speech was excluded)
+  private readonly MAX_STEP_MS = 100;
+
+  constructor(config: NoiseFloorConfig, initialFloor: number) {
+    this.config = { ...config };
+    this.floor = initialFloor;
+    this.reportedFloor = initialFloor;
+  }
+
+  /**
+   * Update tracker settings
+   */
+  configure(config: Partial<NoiseFloorConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Restart tracking from a known floor
+   */
+  reset(floor: number): void {
+    this.floor = floor;
+    this.reportedFloor = floor;
+    this.subwindowMinima = [];
+    this.currentMinimum = Infinity;
+    this.subwindowStart = null;
+    this.lastTimestamp = null;
+  }
+
+  /**
+   * Feed a non-speech sample and return the updated floor
+   */
+  process(volume: number, timestamp: number): number {
+    const dtMs = this.lastTimestamp === null ? 0 : Math.min(timestamp - this.lastTimestamp, this.MAX_STEP_MS);
+    this.lastTimestamp = timestamp;
+
+    this.currentMinimum = Math.min(this.currentMinimum, volume);
+    if (this.subwindowStart === null) {
+      this.subwindowStart = timestamp;
+    } else if (timestamp - this.subwindowStart >= this.config.windowMs / this.SUBWINDOWS) {
+      this.subwindowMinima.push(this.currentMinimum);
+      if (this.subwindowMinima.length > this.SUBWINDOWS) {
+        this.subwindowMinima.shift();
+      }
+      this.currentMinimum = Infinity;
+      this.subwindowStart = timestamp;
+    }
+
+    // Wait for a full window before moving
+    if (this.subwindowMinima.length < this.SUBWINDOWS) {
+      return this.floor;
+    }
+
+    const estimate = clamp(Math.min(...this.subwindowMinima) * this.BIAS, this.config.minFloor, this.config.maxFloor);
+    const maxStep = this.config.maxRatePerSecond * dtMs / 1000;
+    this.floor += clamp(estimate - this.floor, -maxStep, maxStep);
+    return this.floor;
+  }
+
+  /**
+   * If the floor moved significantly since the last report, return the previous floor
+   */
+  takeShift(): number | null {
+    const previous = this.reportedFloor;
+    if (Math.abs(this.floor - previous) < previous * this.config.shiftRatio) {
+      return null;
+    }
+    this.reportedFloor = this.floor;
+    return previous;
+  }
+
+  /**
+   * Current floor estimate
+   */
+  getFloor(): number {
+    return this.floor;
+  }
+}
@@ -0,0 +1,207 @@
+import { ThemePalette } from '../types.js';
+import { Renderer, RenderFrame, RenderOptions } from './renderer.js';
+
+/**
+ * Messages from the main thread to the render worker
+ */
+export type RenderWorkerRequest =
+  // The canvas comes with the first init only; later orbs on the same canvas reuse it
+  | { type: 'init'; canvas?: OffscreenCanvas; options: RenderOptions; palette: ThemePalette }
+  | { type: 'release' }
+  | { type: 'configure'; options: RenderOptions }
+  | { type: 'palette'; palette: ThemePalette }
+  | { type: 'resize'; width: number; height: number; dpr: number }
+  | { type: 'place'; x: number; y: number; snap: boolean }
+  | { type: 'emphasis'; scale: number; opacity: number }
+  | { type: 'reset' }
+  | { type: 'frame'; frame: RenderFrame; clear: boolean };
+
+/**
+ * Messages from the render worker to the main thread
+ */
+export type RenderWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'rendered'; costMs: number };
+
+// Workers that own a transferred canvas. A canvas can be transferred only once,
+// so its worker outlives the orb and is handed to the next orb on that canvas.
+const canvasWorkers = new WeakMap<HTMLCanvasElement, Worker>();
+
+/**
+ * Whether a canvas can be handed to a worker for rendering
+ */
+export function supportsOffscreenRendering(canvas: HTMLCanvasElement): boolean {
+  return typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof canvas.transferControlToOffscreen === 'function';
+}
+
+/**
+ * Whether a canvas already belongs to a render worker (and can no longer be drawn on directly)
+ */
+export function hasRenderWorker(canvas: HTMLCanvasElement): boolean {
+  return canvasWorkers.has(canvas);
+}
+
+/**
+ * Renders in a Web Worker that owns the canvas via transferControlToOffscreen().
+ *
+ * The canvas is only transferred once the worker script has loaded; if it fails to load,
+ * `onFallback` is called with the canvas untouched so the orb can draw on the main thread.
+ * Until then drawing options are queued and frames dropped. On destroy the worker is
+ * released rather than terminated, since it is the only thing left that can draw on the canvas.
+ */
+export class OffscreenRenderer implements Renderer {
+  private canvas: HTMLCanvasElement;
+  private worker: Worker;
+  private ready: boolean = false;
+  private destroyed: boolean = false;
+  private queue: RenderWorkerRequest[] = [];
+  private pendingClear: boolean = false;
+  private callbacks: {
+    onFrameCost: (costMs: number) => void;
+    onError: (error: Error) => void;
+    onFallback: (error: Error) => void;
+  };
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    workerUrl: string | URL,
+    options: RenderOptions,
+    palette: ThemePalette,
+    callbacks: OffscreenRenderer['callbacks']
+  ) {
+    this.canvas = canvas;
+    this.callbacks = callbacks;
+
+    const existing = canvasWorkers.get(canvas);
+    this.worker = existing ?? new Worker(workerUrl, { type: 'module' });
+    this.worker.addEventListener('message', this.handleMessage);
+    this.worker.addEventListener('error', this.handleError);
+
+    if (existing) {
+      this.ready = true;
+      this.post({ type: 'init', options, palette });
+    } else {
+      this.queue.push({ type: 'init', options, palette });
+    }
+  }
+
+  private handleMessage = (event: MessageEvent<RenderWorkerResponse>): void => {
+    if (event.data.type === 'ready') {
+      this.attach();
+    } else if (event.data.type === 'rendered') {
+      this.callbacks.onFrameCost(event.data.costMs);
+    }
+  };
+
+  private handleError = (event: ErrorEvent): void => {
+    const error = new Error(`Render worker failed: ${event.message || 'could not load the worker script'}`);
+    if (this.ready) {
+      this.callbacks.onError(error);
+    } else {
+      this.fail(error);
+    }
+  };
+
+  /**
+   * Hand the canvas to the freshly loaded worker and flush queued messages
+   */
+  private attach(): void {
+    if (this.ready) return;
+
+    let offscreen: OffscreenCanvas;
+    try {
+      offscreen = this.canvas.transferControlToOffscreen();
+    } catch (error) {
+      // e.g. the canvas already has a 2D context
+      this.fail(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    canvasWorkers.set(this.canvas, this.worker);
+    this.ready = true;
+    const [init, ...rest] = this.queue;
+    this.queue = [];
+    if (init.type === 'init') {
+      this.post({ ...init, canvas: offscreen }, [offscreen]);
+    }
+    rest.forEach(message => this.post(message));
+  }
+
+  /**
+   * Give up before the canvas was transferred
+   */
+  private fail(error: Error): void {
+    this.detach();
+    this.worker.terminate();
+    this.queue = [];
+    this.callbacks.onFallback(error);
+  }
+
+  private detach(): void {
+    this.worker.removeEventListener('message', this.handleMessage);
+    this.worker.removeEventListener('error', this.handleError);
+  }
+
+  private post(message: RenderWorkerRequest, transfer: Transferable[] = []): void {
+    // The worker may already be drawing for the next orb on this canvas
+    if (this.destroyed) return;
+    if (!this.ready) {
+      this.queue.push(message);
+      return;
+    }
+    this.worker.postMessage(message, transfer);
+  }
+
+  configure(options: RenderOptions): void {
+    this.post({ type: 'configure', options });
+  }
+
+  setPalette(palette: ThemePalette): void {
+    this.post({ type: 'palette', palette });
+  }
+
+  resize(width: number, height: number, dpr: number): void {
+    this.post({ type: 'resize', width, height, dpr });
+  }
+
+  placeAt(x: number, y: number, snap: boolean = false): void {
+    this.post({ type: 'place', x, y, snap });
+  }
+
+  setEmphasis(scale: number, opacity: number): void {
+    this.post({ type: 'emphasis', scale, opacity });
+  }
+
+  reset(): void {
+    this.post({ type: 'reset' });
+  }
+
+  /**
+   * The worker clears before drawing the next frame
+   */
+  clear(): void {
+    this.pendingClear = true;
+  }
+
+  render(frame: RenderFrame): void {
+    // Frames before the worker is up would only pile up
+    if (!this.ready) return;
+    this.post({ type: 'frame', frame, clear: this.pendingClear });
+    this.pendingClear = false;
+  }
+
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    this.detach();
+    if (this.ready) {
+      this.worker.postMessage({ type: 'release' } as RenderWorkerRequest);
+    } else {
+      // The canvas was never transferred, so nothing depends on this worker
+      this.worker.terminate();
+    }
+    this.queue = [];
+  }
+}
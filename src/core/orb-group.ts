@@ -0,0 +1,479 @@
+import { VoiceOrbOptions, VoiceOrbGroupOptions, OrbLayout, OrbPosition, VolumeFrame } from '../types.js';
+import { VoiceOrb, OrbHost } from './VoiceOrb.js';
+import { EventEmitter } from './events.js';
+import { QualityGovernor } from './quality.js';
+import { getCanvas, damp, REFERENCE_FRAME_MS } from './utils.js';
+
+export interface VoiceOrbGroupEvents {
+  dominantchange: { orb: VoiceOrb | null; previous: VoiceOrb | null };
+}
+
+interface GroupMember {
+  orb: VoiceOrb;
+  position: OrbPosition | null;
+  volume: number;
+  active: boolean;
+  // Highlight mix, 0 = dimmed/neutral, 1 = dominant
+  emphasis: number;
+  unsubscribe: () => void;
+}
+
+/**
+ * Draws several orbs into one canvas with a shared render loop and AudioContext.
+ *
+ * Each member is a full VoiceOrb bound to its own source and style; the group
+ * positions them by layout, renders them in one frame and optionally highlights
+ * whichever member is currently the loudest active speaker.
+ */
+export class VoiceOrbGroup {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private options: Required<Omit<VoiceOrbGroupOptions, 'audioContext'>>;
+  private members: GroupMember[] = [];
+  private events = new EventEmitter<VoiceOrbGroupEvents>();
+  private qualityGovernor: QualityGovernor;
+  private host: OrbHost;
+
+  // Shared audio
+  private audioContext: AudioContext | null;
+  private ownsAudioContext: boolean = false;
+
+  // Dominant speaker
+  private dominant: VoiceOrb | null = null;
+  private candidate: VoiceOrb | null = null;
+  private candidateSince: number = 0;
+
+  // Canvas and loop state
+  private width: number = 0;
+  private height: number = 0;
+  private dprCap: number = 2;
+  private animationId: number | null = null;
+  private lastRenderTime: number = 0;
+  private lastFrameTime: number | null = null;
+  private isPageVisible: boolean = true;
+  private isOnScreen: boolean = true;
+  private intersectionObserver: IntersectionObserver | null = null;
+  private isDestroyed: boolean = false;
+
+  private static readonly DEFAULT_OPTIONS = {
+    layout: 'row' as OrbLayout,
+    padding: 10,
+    highlightDominant: false,
+    highlightScale: 1.15,
+    dimOpacity: 0.5,
+    dominantHoldMs: 250,
+    highlightTransitionMs: 200,
+    fpsLimit: 60,
+    pauseWhenHidden: true,
+    adaptiveQuality: true,
+    frameBudgetMs: 8,
+    ariaLabel: 'Conversation participants visualizer'
+  };
+
+  constructor(canvasOrSelector: HTMLCanvasElement | string, options: VoiceOrbGroupOptions = {}) {
+    this.canvas = getCanvas(canvasOrSelector);
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Failed to get 2D context from canvas');
+    }
+    this.ctx = ctx;
+
+    const { audioContext, ...rest } = options;
+    this.options = { ...VoiceOrbGroup.DEFAULT_OPTIONS, ...rest };
+    this.audioContext = audioContext ?? null;
+
+    this.qualityGovernor = new QualityGovernor(this.options.frameBudgetMs, (level, settings) => {
+      if (settings.maxDpr !== this.dprCap) {
+        this.setupCanvas();
+      }
+    });
+    this.host = {
+      qualityGovernor: this.qualityGovernor,
+      detach: (orb) => this.detach(orb)
+    };
+
+    this.setupCanvas();
+    window.addEventListener('resize', this.handleResize);
+
+    // Pause rendering when the page is hidden or the canvas is scrolled off-screen
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.isPageVisible = document.visibilityState !== 'hidden';
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.intersectionObserver = new IntersectionObserver((entries) => {
+        this.isOnScreen = entries[entries.length - 1].isIntersecting;
+        this.updateAnimationState();
+      });
+      this.intersectionObserver.observe(this.canvas);
+    }
+
+    this.canvas.setAttribute('role', 'img');
+    this.canvas.setAttribute('aria-label', this.options.ariaLabel);
+    this.canvas.setAttribute('aria-live', 'polite');
+
+    this.startAnimation();
+  }
+
+  private handleResize = (): void => {
+    this.setupCanvas();
+  };
+
+  private handleVisibilityChange = (): void => {
+    this.isPageVisible = document.visibilityState !== 'hidden';
+    this.updateAnimationState();
+  };
+
+  /**
+   * Add an orb with its own options. With the 'manual' layout, pass its position in CSS pixels.
+   */
+  addOrb(options: VoiceOrbOptions = {}, position?: OrbPosition): VoiceOrb {
+    if (this.isDestroyed) {
+      throw new Error('VoiceOrbGroup has been destroyed');
+    }
+
+    const orb = new VoiceOrb(this.canvas, { ...options, audioContext: this.getAudioContext() }, this.host);
+    const member: GroupMember = {
+      orb,
+      position: position ?? null,
+      volume: 0,
+      active: false,
+      emphasis: 0,
+      unsubscribe: orb.on('volume', (frame: VolumeFrame) => {
+        member.volume = frame.effective;
+        member.active = frame.tier !== 'quiet';
+      })
+    };
+    this.members.push(member);
+    this.applyLayout(true);
+    return orb;
+  }
+
+  /**
+   * Remove and destroy an orb
+   */
+  async removeOrb(orb: VoiceOrb): Promise<void> {
+    if (!this.members.some(member => member.orb === orb)) return;
+    await orb.destroy();
+  }
+
+  /**
+   * Drop a member (called when a hosted orb is destroyed)
+   */
+  private detach(orb: VoiceOrb): void {
+    const index = this.members.findIndex(member => member.orb === orb);
+    if (index === -1) return;
+
+    this.members[index].unsubscribe();
+    this.members.splice(index, 1);
+    if (this.candidate === orb) {
+      this.candidate = null;
+    }
+    if (this.dominant === orb) {
+      this.setDominant(null);
+    }
+    this.applyLayout();
+  }
+
+  /**
+   * Orbs in the group, in layout order
+   */
+  getOrbs(): VoiceOrb[] {
+    return this.members.map(member => member.orb);
+  }
+
+  /**
+   * Change the layout strategy
+   */
+  setLayout(layout: OrbLayout): void {
+    this.options.layout = layout;
+    this.applyLayout();
+  }
+
+  /**
+   * Set an orb's position for the 'manual' layout
+   */
+  setPosition(orb: VoiceOrb, position: OrbPosition): void {
+    const member = this.members.find(m => m.orb === orb);
+    if (!member) return;
+    member.position = { ...position };
+    this.applyLayout();
+  }
+
+  /**
+   * Update group options at runtime
+   */
+  setOptions(newOptions: Omit<VoiceOrbGroupOptions, 'audioContext'>): void {
+    this.options = { ...this.options, ...newOptions };
+
+    if (newOptions.layout !== undefined || newOptions.padding !== undefined) {
+      this.applyLayout();
+    }
+    if (newOptions.highlightDominant === false) {
+      this.setDominant(null);
+    }
+    if (newOptions.frameBudgetMs !== undefined) {
+      this.qualityGovernor.setBudget(newOptions.frameBudgetMs);
+    }
+    if (newOptions.adaptiveQuality === false) {
+      this.qualityGovernor.reset();
+    }
+    if (newOptions.pauseWhenHidden !== undefined) {
+      this.updateAnimationState();
+    }
+    if (newOptions.ariaLabel) {
+      this.canvas.setAttribute('aria-label', newOptions.ariaLabel);
+    }
+  }
+
+  /**
+   * The AudioContext shared by all orbs, created on first use if none was supplied
+   */
+  getAudioContext(): AudioContext {
+    if (!this.audioContext) {
+      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.ownsAudioContext = true;
+    }
+    return this.audioContext!;
+  }
+
+  /**
+   * The highlighted dominant speaker, if any
+   */
+  getDominant(): VoiceOrb | null {
+    return this.dominant;
+  }
+
+  /**
+   * Subscribe to a group event, returns an unsubscribe function
+   */
+  on<K extends keyof VoiceOrbGroupEvents>(event: K, handler: (payload: VoiceOrbGroupEvents[K]) => void): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * Unsubscribe from a group event
+   */
+  off<K extends keyof VoiceOrbGroupEvents>(event: K, handler: (payload: VoiceOrbGroupEvents[K]) => void): void {
+    this.events.off(event, handler);
+  }
+
+  /**
+   * Size the canvas and lay out the orbs
+   */
+  private setupCanvas(): void {
+    const rect = this.canvas.getBoundingClientRect();
+    this.dprCap = this.qualityGovernor.getSettings().maxDpr;
+    const dpr = Math.min(window.devicePixelRatio || 1, this.dprCap);
+
+    this.canvas.width = rect.width * dpr;
+    this.canvas.height = rect.height * dpr;
+    this.ctx.scale(dpr, dpr);
+
+    this.canvas.style.width = `${rect.width}px`;
+    this.canvas.style.height = `${rect.height}px`;
+
+    this.width = rect.width;
+    this.height = rect.height;
+    this.applyLayout(true);
+  }
+
+  /**
+   * Position every orb for the current layout
+   */
+  private applyLayout(snap: boolean = false): void {
+    const positions = this.computeLayout();
+    this.members.forEach((member, index) => {
+      member.orb.placeAt(positions[index].x, positions[index].y, snap);
+    });
+  }
+
+  /**
+   * Resting positions in CSS pixels, one per member
+   */
+  private computeLayout(): OrbPosition[] {
+    const count = this.members.length;
+    const centerX = this.width / 2;
+    const centerY = this.height / 2;
+    const padding = this.options.padding;
+
+    switch (this.options.layout) {
+      case 'manual':
+        return this.members.map(member => member.position ?? { x: centerX, y: centerY });
+
+      case 'circle': {
+        if (count === 1) return [{ x: centerX, y: centerY }];
+        const largestRadius = Math.max(0, ...this.members.map(member => member.orb.getOptions().radius ?? 0));
+        const ringRadius = Math.max(0, Math.min(this.width, this.height) / 2 - largestRadius - padding);
+        return this.members.map((_member, index) => {
+          const angle = -Math.PI / 2 + (index / count) * Math.PI * 2;
+          return { x: centerX + Math.cos(angle) * ringRadius, y: centerY + Math.sin(angle) * ringRadius };
+        });
+      }
+
+      case 'grid': {
+        const columns = Math.ceil(Math.sqrt(count));
+        const rows = Math.ceil(count / columns);
+        const cellWidth = (this.width - padding * 2) / columns;
+        const cellHeight = (this.height - padding * 2) / rows;
+        return this.members.map((_member, index) => ({
+          x: padding + cellWidth * (index % columns + 0.5),
+          y: padding + cellHeight * (Math.floor(index / columns) + 0.5)
+        }));
+      }
+
+      default: {
+        const cellWidth = (this.width - padding * 2) / Math.max(count, 1);
+        return this.members.map((_member, index) => ({
+          x: padding + cellWidth * (index + 0.5),
+          y: centerY
+        }));
+      }
+    }
+  }
+
+  /**
+   * Pick the loudest active speaker, switching only after it has led for dominantHoldMs
+   */
+  private updateDominant(now: number): void {
+    let loudest: GroupMember | null = null;
+    for (const member of this.members) {
+      if (member.active && (!loudest || member.volume > loudest.volume)) {
+        loudest = member;
+      }
+    }
+
+    const leader = loudest?.orb ?? null;
+    if (leader === this.dominant) {
+      this.candidate = null;
+      return;
+    }
+    if (leader !== this.candidate) {
+      this.candidate = leader;
+      this.candidateSince = now;
+      return;
+    }
+    if (now - this.candidateSince >= this.options.dominantHoldMs) {
+      this.candidate = null;
+      this.setDominant(leader);
+    }
+  }
+
+  /**
+   * Change the dominant speaker and notify listeners
+   */
+  private setDominant(orb: VoiceOrb | null): void {
+    if (orb === this.dominant) return;
+    const previous = this.dominant;
+    this.dominant = orb;
+    this.events.emit('dominantchange', { orb, previous });
+  }
+
+  /**
+   * Ease each orb's highlight toward dominant, dimmed or neutral
+   */
+  private updateEmphasis(dt: number): void {
+    const highlighting = this.options.highlightDominant && this.dominant !== null;
+    for (const member of this.members) {
+      const target = highlighting ? (member.orb === this.dominant ? 1 : -1) : 0;
+      member.emphasis = damp(member.emphasis, target, this.options.highlightTransitionMs, dt);
+
+      const boost = Math.max(member.emphasis, 0);
+      const dim = Math.max(-member.emphasis, 0);
+      member.orb.setEmphasis(
+        1 + (this.options.highlightScale - 1) * boost,
+        1 - (1 - this.options.dimOpacity) * dim
+      );
+    }
+  }
+
+  /**
+   * Whether the render loop should be running
+   */
+  private shouldAnimate(): boolean {
+    if (this.isDestroyed) return false;
+    if (!this.options.pauseWhenHidden) return true;
+    return this.isPageVisible && this.isOnScreen;
+  }
+
+  /**
+   * Start or stop the render loop to match visibility
+   */
+  private updateAnimationState(): void {
+    if (this.shouldAnimate()) {
+      this.startAnimation();
+    } else {
+      this.stopAnimation();
+    }
+  }
+
+  /**
+   * Start the shared render loop
+   */
+  private startAnimation(): void {
+    if (this.animationId !== null || !this.shouldAnimate()) return;
+
+    this.lastFrameTime = null;
+    this.lastRenderTime = 0;
+
+    const animate = (timestamp: number) => {
+      this.animationId = requestAnimationFrame(animate);
+
+      const frameInterval = this.options.fpsLimit > 0 ? 1000 / this.options.fpsLimit : 0;
+      if (timestamp - this.lastRenderTime < frameInterval - 1) return;
+      this.lastRenderTime = timestamp;
+
+      const start = performance.now();
+      const dt = this.lastFrameTime === null ? REFERENCE_FRAME_MS : Math.min(start - this.lastFrameTime, 100);
+      this.lastFrameTime = start;
+
+      this.updateDominant(start);
+      this.updateEmphasis(dt);
+
+      this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+      // Draw the dominant speaker last so its highlight sits on top
+      const ordered = this.members.filter(member => member.orb !== this.dominant);
+      const dominant = this.members.find(member => member.orb === this.dominant);
+      if (dominant) ordered.push(dominant);
+      ordered.forEach(member => member.orb.renderFrame());
+
+      if (this.options.adaptiveQuality) {
+        this.qualityGovernor.recordFrame(performance.now() - start, Math.max(frameInterval, REFERENCE_FRAME_MS));
+      }
+    };
+
+    animate(performance.now());
+  }
+
+  /**
+   * Stop the shared render loop
+   */
+  private stopAnimation(): void {
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+
+  /**
+   * Destroy all orbs, stop the loop and close the AudioContext if the group created it
+   */
+  async destroy(): Promise<void> {
+    this.isDestroyed = true;
+    this.stopAnimation();
+    await Promise.all(this.members.map(member => member.orb.destroy()));
+
+    window.removeEventListener('resize', this.handleResize);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.intersectionObserver?.disconnect();
+    this.intersectionObserver = null;
+    this.events.removeAllListeners();
+
+    if (this.audioContext && this.ownsAudioContext && this.audioContext.state !== 'closed') {
+      try {
+        await this.audioContext.close();
+      } catch (e) {
+        console.warn('Error closing audio context:', e);
+      }
+    }
+    this.audioContext = null;
+  }
+}
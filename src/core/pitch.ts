@@ -0,0 +1,160 @@
+import { PitchReading } from '../types.js';
+import { clamp } from './utils.js';
+
+/**
+ * Pitch detection settings
+ */
+export interface PitchConfig {
+  minFrequency: number;
+  maxFrequency: number;
+  // YIN absolute threshold on the normalized difference (lower = stricter voicing)
+  threshold: number;
+}
+
+// Below this RMS the buffer is treated as silence
+const MIN_RMS = 0.002;
+// Input above this rate is decimated by 2 before analysis
+const DECIMATE_ABOVE_RATE = 32000;
+
+/**
+ * YIN fundamental frequency estimator over an analyser's time-domain buffer
+ */
+export class PitchDetector {
+  private config: PitchConfig;
+  private buffer = new Float32Array(0);
+  private samples: Float32Array = new Float32Array(0);
+  private difference: Float32Array = new Float32Array(0);
+
+  constructor(config: PitchConfig) {
+    this.config = { ...config };
+  }
+
+  /**
+   * Update detection settings
+   */
+  configure(config: Partial<PitchConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Estimate the fundamental frequency of the analyser's current buffer
+   */
+  detect(analyser: AnalyserNode): PitchReading {
+    if (this.buffer.length !== analyser.fftSize) {
+      this.buffer = new Float32Array(analyser.fftSize);
+    }
+    analyser.getFloatTimeDomainData(this.buffer);
+
+    let sampleRate = analyser.context.sampleRate;
+    let samples: Float32Array = this.buffer;
+    if (sampleRate > DECIMATE_ABOVE_RATE) {
+      samples = this.decimate(this.buffer);
+      sampleRate /= 2;
+    }
+
+    return this.estimate(samples, sampleRate);
+  }
+
+  /**
+   * Halve the sample rate by averaging pairs (a crude low-pass is enough for voice f0)
+   */
+  private decimate(input: Float32Array): Float32Array {
+    const length = Math.floor(input.length / 2);
+    if (this.samples.length !== length) {
+      this.samples = new Float32Array(length);
+    }
+    for (let i = 0; i < length; i++) {
+      this.samples[i] = (input[i * 2] + input[i * 2 + 1]) * 0.5;
+    }
+    return this.samples;
+  }
+
+  /**
+   * YIN: cumulative mean normalized difference, absolute threshold, parabolic refinement
+   */
+  private estimate(samples: Float32Array, sampleRate: number): PitchReading {
+    let sumSquares = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sumSquares += samples[i] * samples[i];
+    }
+    if (Math.sqrt(sumSquares / samples.length) < MIN_RMS) {
+      return { frequency: 0, confidence: 0, voiced: false };
+    }
+
+    const maxLag = Math.min(Math.floor(sampleRate / this.config.minFrequency), Math.floor(samples.length / 2));
+    const minLag = Math.max(2, Math.floor(sampleRate / this.config.maxFrequency));
+    if (minLag >= maxLag) {
+      return { frequency: 0, confidence: 0, voiced: false };
+    }
+
+    const windowSize = samples.length - maxLag;
+    if (this.difference.length !== maxLag + 1) {
+      this.difference = new Float32Array(maxLag + 1);
+    }
+    const d = this.difference;
+
+    // Difference function, normalized in place by its running mean
+    d[0] = 1;
+    let runningSum = 0;
+    for (let lag = 1; lag <= maxLag; lag++) {
+      let sum = 0;
+      for (let i = 0; i < windowSize; i++) {
+        const delta = samples[i] - samples[i + lag];
+        sum += delta * delta;
+      }
+      runningSum += sum;
+      d[lag] = runningSum > 0 ? sum * lag / runningSum : 1;
+    }
+
+    // First dip below the threshold, followed to its local minimum
+    let bestLag = -1;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (d[lag] < this.config.threshold) {
+        while (lag + 1 <= maxLag && d[lag + 1] < d[lag]) {
+          lag++;
+        }
+        bestLag = lag;
+        break;
+      }
+    }
+
+    // No dip: take the global minimum as an unvoiced guess
+    const voiced = bestLag !== -1;
+    if (!voiced) {
+      bestLag = minLag;
+      for (let lag = minLag + 1; lag <= maxLag; lag++) {
+        if (d[lag] < d[bestLag]) bestLag = lag;
+      }
+    }
+
+    return {
+      frequency: sampleRate / this.refineLag(bestLag, maxLag),
+      confidence: clamp(1 - d[bestLag], 0, 1),
+      voiced
+    };
+  }
+
+  /**
+   * Parabolic interpolation around a lag for sub-sample precision
+   */
+  private refineLag(lag: number, maxLag: number): number {
+    if (lag <= 1 || lag >= maxLag) return lag;
+
+    const d = this.difference;
+    const previous = d[lag - 1];
+    const current = d[lag];
+    const next = d[lag + 1];
+    const denominator = previous - 2 * current + next;
+    if (denominator === 0) return lag;
+    return lag + (previous - next) / (2 * denominator);
+  }
+}
+
+/**
+ * Position of a frequency within a range on a log scale, from -1 (min) to 1 (max)
+ */
+export function normalizePitch(frequency: number, minFrequency: number, maxFrequency: number): number {
+  if (frequency <= 0) return 0;
+  const position = Math.log(frequency / minFrequency) / Math.log(maxFrequency / minFrequency);
+  return clamp(position * 2 - 1, -1, 1);
+}
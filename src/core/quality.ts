@@ -0,0 +1,117 @@
+/**
+ * Rendering settings applied at a given quality level
+ */
+export interface QualitySettings {
+  pointScale: number;
+  allowStroke: boolean;
+  allowGradient: boolean;
+  maxDpr: number;
+}
+
+/**
+ * Quality levels from full detail down to the cheapest rendering
+ */
+const QUALITY_LEVELS: QualitySettings[] = [
+  { pointScale: 1, allowStroke: true, allowGradient: true, maxDpr: 2 },
+  { pointScale: 0.66, allowStroke: true, allowGradient: true, maxDpr: 2 },
+  { pointScale: 0.5, allowStroke: false, allowGradient: false, maxDpr: 2 },
+  { pointScale: 0.5, allowStroke: false, allowGradient: false, maxDpr: 1 }
+];
+
+/**
+ * Measures frame cost and steps rendering quality down when over budget,
+ * restoring it once there is sustained headroom
+ */
+export class QualityGovernor {
+  private level: number = 0;
+  private averageCost: number = 0;
+  private budgetMs: number;
+  private overBudgetMs: number = 0;
+  private underBudgetMs: number = 0;
+  private onChange?: (level: number, settings: QualitySettings) => void;
+
+  // How long cost must stay over/under budget before changing level
+  private readonly DOWNGRADE_AFTER_MS = 1000;
+  private readonly UPGRADE_AFTER_MS = 3000;
+  // Headroom required before restoring quality
+  private readonly UPGRADE_RATIO = 0.5;
+  // Weight of the newest sample in the cost average
+  private readonly COST_SMOOTHING = 0.1;
+
+  constructor(budgetMs: number, onChange?: (level: number, settings: QualitySettings) => void) {
+    this.budgetMs = budgetMs;
+    this.onChange = onChange;
+  }
+
+  /**
+   * Record the cost of one rendered frame
+   */
+  recordFrame(costMs: number, frameIntervalMs: number): void {
+    this.averageCost += (costMs - this.averageCost) * this.COST_SMOOTHING;
+
+    if (this.averageCost > this.budgetMs) {
+      this.overBudgetMs += frameIntervalMs;
+      this.underBudgetMs = 0;
+      if (this.overBudgetMs >= this.DOWNGRADE_AFTER_MS && this.level < QUALITY_LEVELS.length - 1) {
+        this.setLevel(this.level + 1);
+      }
+    } else if (this.averageCost < this.budgetMs * this.UPGRADE_RATIO) {
+      this.underBudgetMs += frameIntervalMs;
+      this.overBudgetMs = 0;
+      if (this.underBudgetMs >= this.UPGRADE_AFTER_MS && this.level > 0) {
+        this.setLevel(this.level - 1);
+      }
+    } else {
+      this.overBudgetMs = 0;
+      this.underBudgetMs = 0;
+    }
+  }
+
+  /**
+   * Change quality level and reset measurement windows
+   */
+  private setLevel(level: number): void {
+    this.level = level;
+    this.overBudgetMs = 0;
+    this.underBudgetMs = 0;
+    this.onChange?.(level, this.getSettings());
+  }
+
+  /**
+   * Update the per-frame cost budget
+   */
+  setBudget(budgetMs: number): void {
+    this.budgetMs = budgetMs;
+  }
+
+  /**
+   * Get current quality level (0 = full quality)
+   */
+  getLevel(): number {
+    return this.level;
+  }
+
+  /**
+   * Get smoothed frame cost in ms
+   */
+  getAverageCost(): number {
+    return this.averageCost;
+  }
+
+  /**
+   * Get settings for the current quality level
+   */
+  getSettings(): QualitySettings {
+    return QUALITY_LEVELS[this.level];
+  }
+
+  /**
+   * Return to full quality
+   */
+  reset(): void {
+    if (this.level !== 0) {
+      this.setLevel(0);
+    }
+    this.averageCost = 0;
+  }
+}
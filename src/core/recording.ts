@@ -0,0 +1,339 @@
+import { AudioMode, CalibrationData, ConversationState, OrbRecording, ReplayOptions } from '../types.js';
+import { clamp } from './utils.js';
+
+// "VORB" at the start of the binary format
+const MAGIC = 0x42524f56;
+const FORMAT_VERSION = 1;
+
+/**
+ * Captures per-frame raw volume and changes of thresholds, mode and state from a live orb
+ */
+export class SessionRecorder {
+  private startTime: number;
+  private startedAt: number = Date.now();
+  private time: number[] = [];
+  private volume: number[] = [];
+  private userShare: number[] = [];
+  private thresholds: OrbRecording['thresholds'] = [];
+  private modes: OrbRecording['modes'] = [];
+  private states: OrbRecording['states'] = [];
+
+  constructor(timestamp: number, mode: AudioMode, state: ConversationState) {
+    this.startTime = timestamp;
+    this.captureMode(timestamp, mode);
+    this.captureState(timestamp, state);
+  }
+
+  /**
+   * Add one rendered frame
+   */
+  captureFrame(timestamp: number, volume: number, userShare: number, thresholds: CalibrationData): void {
+    const time = this.elapsed(timestamp);
+    this.time.push(time);
+    this.volume.push(round(volume, 4));
+    this.userShare.push(round(userShare, 3));
+
+    const value = pickThresholds(thresholds);
+    const last = this.thresholds[this.thresholds.length - 1];
+    if (!last || !sameThresholds(last.value, value)) {
+      this.thresholds.push({ time, value });
+    }
+  }
+
+  captureMode(timestamp: number, mode: AudioMode): void {
+    this.modes.push({ time: this.elapsed(timestamp), mode });
+  }
+
+  captureState(timestamp: number, state: ConversationState): void {
+    this.states.push({ time: this.elapsed(timestamp), state });
+  }
+
+  /**
+   * The recording so far
+   */
+  finish(timestamp: number): OrbRecording {
+    return {
+      version: FORMAT_VERSION,
+      startedAt: this.startedAt,
+      duration: this.elapsed(timestamp),
+      frames: { time: [...this.time], volume: [...this.volume], userShare: [...this.userShare] },
+      thresholds: this.thresholds.map(entry => ({ time: entry.time, value: { ...entry.value } })),
+      modes: [...this.modes],
+      states: [...this.states]
+    };
+  }
+
+  private elapsed(timestamp: number): number {
+    return round(timestamp - this.startTime, 1);
+  }
+}
+
+/**
+ * A recorded frame at the replay position
+ */
+export interface ReplaySample {
+  volume: number;
+  // Null outside recorded duplex mode
+  userShare: number | null;
+  thresholds: CalibrationData | null;
+}
+
+/**
+ * Plays a recording back in real time (scaled by speed), with pause, seek and loop
+ */
+export class SessionPlayer {
+  private recording: OrbRecording | null = null;
+  private position: number = 0;
+  private speed: number = 1;
+  private loop: boolean = false;
+  private paused: boolean = false;
+  private ended: boolean = false;
+  private appliedState: ConversationState | null = null;
+
+  /**
+   * Start from a recording
+   */
+  load(recording: OrbRecording, options: ReplayOptions = {}): void {
+    this.recording = recording;
+    this.speed = Math.max(options.speed ?? 1, 0);
+    this.loop = options.loop ?? false;
+    this.paused = options.paused ?? false;
+    this.ended = false;
+    this.appliedState = null;
+    this.position = clamp(options.startAt ?? 0, 0, recording.duration);
+  }
+
+  /**
+   * Drop the recording
+   */
+  unload(): void {
+    this.recording = null;
+    this.position = 0;
+    this.ended = false;
+    this.appliedState = null;
+  }
+
+  /**
+   * Move the position by elapsed real time and sample the recording there
+   */
+  advance(elapsedMs: number): ReplaySample {
+    const recording = this.recording;
+    if (!recording) {
+      return { volume: 0, userShare: null, thresholds: null };
+    }
+
+    if (!this.paused) {
+      this.position += elapsedMs * this.speed;
+      if (this.position >= recording.duration) {
+        if (this.loop && recording.duration > 0) {
+          this.position %= recording.duration;
+          this.appliedState = null;
+        } else {
+          this.position = recording.duration;
+          this.paused = true;
+          this.ended = true;
+        }
+      }
+    }
+
+    return this.sample(recording, this.position);
+  }
+
+  /**
+   * Recorded volume, duplex share and thresholds at a position
+   */
+  private sample(recording: OrbRecording, position: number): ReplaySample {
+    const { time, volume, userShare } = recording.frames;
+    const mode = lastAt(recording.modes, position)?.mode;
+    const thresholds = lastAt(recording.thresholds, position)?.value ?? null;
+
+    const index = lastIndexAt(time.length, i => time[i], position);
+    if (index < 0) {
+      return { volume: 0, userShare: mode === 'duplex' ? 0 : null, thresholds };
+    }
+
+    // Interpolate between frames so replay at any speed or frame rate stays smooth
+    const next = Math.min(index + 1, time.length - 1);
+    const span = time[next] - time[index];
+    const t = span > 0 ? clamp((position - time[index]) / span, 0, 1) : 0;
+    return {
+      volume: volume[index] + (volume[next] - volume[index]) * t,
+      userShare: mode === 'duplex' ? userShare[index] + (userShare[next] - userShare[index]) * t : null,
+      thresholds
+    };
+  }
+
+  /**
+   * Recorded conversational state to apply, if it changed since last taken
+   */
+  takeStateChange(): ConversationState | null {
+    if (!this.recording) return null;
+    const state = lastAt(this.recording.states, this.position)?.state ?? null;
+    if (state === null || state === this.appliedState) return null;
+    this.appliedState = state;
+    return state;
+  }
+
+  /**
+   * Whether playback reached the end since last taken
+   */
+  takeEnded(): boolean {
+    const ended = this.ended;
+    this.ended = false;
+    return ended;
+  }
+
+  play(): void {
+    if (!this.recording) return;
+    // Playing from the end starts over
+    if (this.position >= this.recording.duration) {
+      this.position = 0;
+      this.appliedState = null;
+    }
+    this.paused = false;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  seek(positionMs: number): void {
+    if (!this.recording) return;
+    this.position = clamp(positionMs, 0, this.recording.duration);
+    this.appliedState = null;
+  }
+
+  getPosition(): number {
+    return this.position;
+  }
+
+  getDuration(): number {
+    return this.recording?.duration ?? 0;
+  }
+
+  setSpeed(speed: number): void {
+    this.speed = Math.max(speed, 0);
+  }
+
+  setLoop(loop: boolean): void {
+    this.loop = loop;
+  }
+}
+
+/**
+ * Pack a recording into a binary buffer: a JSON header followed by Float32 frame columns
+ */
+export function encodeRecording(recording: OrbRecording): ArrayBuffer {
+  const { frames, ...header } = recording;
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const count = frames.time.length;
+
+  // Columns start on a 4-byte boundary
+  const columnsOffset = Math.ceil((12 + headerBytes.length) / 4) * 4;
+  const buffer = new ArrayBuffer(columnsOffset + count * 3 * 4);
+  const view = new DataView(buffer);
+  view.setUint32(0, MAGIC, true);
+  view.setUint32(4, headerBytes.length, true);
+  view.setUint32(8, count, true);
+  new Uint8Array(buffer, 12, headerBytes.length).set(headerBytes);
+
+  const columns = new Float32Array(buffer, columnsOffset, count * 3);
+  columns.set(frames.time, 0);
+  columns.set(frames.volume, count);
+  columns.set(frames.userShare, count * 2);
+  return buffer;
+}
+
+/**
+ * Read a recording from encodeRecording() output, its JSON text, or the object itself
+ */
+export function decodeRecording(data: OrbRecording | ArrayBuffer | string): OrbRecording {
+  let recording: OrbRecording;
+  if (typeof data === 'string') {
+    recording = JSON.parse(data);
+  } else if (data instanceof ArrayBuffer) {
+    recording = decodeBinary(data);
+  } else {
+    recording = data;
+  }
+
+  if (recording?.version !== FORMAT_VERSION || !recording.frames) {
+    throw new Error('Unsupported orb recording');
+  }
+  return recording;
+}
+
+function decodeBinary(buffer: ArrayBuffer): OrbRecording {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12 || view.getUint32(0, true) !== MAGIC) {
+    throw new Error('Not an orb recording');
+  }
+
+  const headerLength = view.getUint32(4, true);
+  const count = view.getUint32(8, true);
+  const header = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 12, headerLength)));
+
+  const columnsOffset = Math.ceil((12 + headerLength) / 4) * 4;
+  const columns = new Float32Array(buffer, columnsOffset, count * 3);
+  return {
+    ...header,
+    frames: {
+      time: Array.from(columns.subarray(0, count)),
+      volume: Array.from(columns.subarray(count, count * 2)),
+      userShare: Array.from(columns.subarray(count * 2))
+    }
+  };
+}
+
+/**
+ * Index of the last item at or before a time in a list ordered by time, -1 if none
+ */
+function lastIndexAt(count: number, timeAt: (index: number) => number, time: number): number {
+  let low = 0;
+  let high = count - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (timeAt(middle) <= time) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Last entry at or before a time
+ */
+function lastAt<T extends { time: number }>(entries: T[], time: number): T | undefined {
+  return entries[lastIndexAt(entries.length, index => entries[index].time, time)];
+}
+
+function pickThresholds(data: CalibrationData): CalibrationData {
+  return {
+    baseline: round(data.baseline, 4),
+    gain: round(data.gain, 4),
+    sensitivity: round(data.sensitivity, 4),
+    loudThreshold: round(data.loudThreshold, 4),
+    veryLoudThreshold: round(data.veryLoudThreshold, 4)
+  };
+}
+
+function sameThresholds(a: CalibrationData, b: CalibrationData): boolean {
+  return a.baseline === b.baseline &&
+    a.gain === b.gain &&
+    a.sensitivity === b.sensitivity &&
+    a.loudThreshold === b.loudThreshold &&
+    a.veryLoudThreshold === b.veryLoudThreshold;
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
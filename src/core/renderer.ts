@@ -0,0 +1,578 @@
+import { VoiceOrbOptions, BlobPoint, CalibrationData, GradientStop, ThemePalette } from '../types.js';
+import { ForceSystem } from './forces.js';
+import { createOrbGradient } from './gradients.js';
+import { QualitySettings } from './quality.js';
+import { clamp, damp, timeConstantFromFactor, rotateHue, RenderContext } from './utils.js';
+
+/**
+ * Options that affect drawing
+ */
+export type RenderOptions = Required<Pick<VoiceOrbOptions,
+  'radius' | 'fillMode' | 'gradientType' | 'gradientAngle' | 'gradientVolumeShift' | 'gradientShiftAmount' |
+  'strokeWidth' | 'opacity' | 'duplexUserColor' | 'errorColor' | 'pointCount' | 'maxOffset' |
+  'pitchHueShift' | 'pitchDrift' | 'deformation' | 'spectralIntensity' | 'spectralMirror' | 'reducedMotionStyle'
+>> & Pick<VoiceOrbOptions, 'color' | 'gradientStops' | 'strokeColor'>;
+
+/**
+ * Values shown by the debug overlay that only the audio side knows
+ */
+export interface DebugInfo {
+  mode: string;
+  state: string;
+  rawVolume: number;
+  qualityLevel: number;
+  frameCost: number;
+}
+
+/**
+ * Audio features and animation inputs for one frame
+ */
+export interface RenderFrame {
+  // Scaled elapsed time (ms) and a clock for ambient breathing
+  dt: number;
+  now: number;
+  smoothedVolume: number;
+  effectiveVolume: number;
+  fadeMultiplier: number;
+  thresholds: CalibrationData;
+  bandLevels: Float32Array;
+  pitchPosition: number;
+  pitchPresence: number;
+  // Preferred angle for audio-driven forces (null = random)
+  spawnAngle: number | null;
+  // Forces requested by the conversational state this frame
+  stateForces: { angle: number; strength: number }[];
+  stateTint: number;
+  ambient: number;
+  duplexUserShare: number;
+  reducedMotion: boolean;
+  quality: QualitySettings;
+  debug: DebugInfo | null;
+}
+
+/**
+ * Draws frames on the main thread or, through a worker, on an OffscreenCanvas
+ */
+export interface Renderer {
+  configure(options: RenderOptions): void;
+  setPalette(palette: ThemePalette): void;
+  resize(width: number, height: number, dpr: number): void;
+  placeAt(x: number, y: number, snap?: boolean): void;
+  setEmphasis(scale: number, opacity: number): void;
+  reset(): void;
+  clear(): void;
+  render(frame: RenderFrame): void;
+  destroy(): void;
+}
+
+// Animation time constants (ms), tuned to match the original 60 Hz per-frame factors
+const RETURN_TO_CENTER_MS = 325;
+
+// Shape clock advance per second while active / idle
+const TIME_RATE_ACTIVE = 0.36;
+const TIME_RATE_IDLE = 0.06;
+
+/**
+ * Draws the orb from per-frame audio features.
+ *
+ * Owns everything that only affects the picture (internal forces, orb motion and
+ * the shape clock), so it can run on the main thread or in a worker against an
+ * OffscreenCanvas with the same results.
+ */
+export class OrbRenderer implements Renderer {
+  private ctx: RenderContext;
+  private options: RenderOptions;
+  private palette: ThemePalette;
+  private forceSystem = new ForceSystem();
+  private time: number = 0;
+
+  // Resting position and current (moving) position in CSS pixels
+  private orbX: number = 0;
+  private orbY: number = 0;
+  private currentX: number = 0;
+  private currentY: number = 0;
+  private targetX: number = 0;
+  private targetY: number = 0;
+
+  // Group highlight multipliers
+  private emphasisScale: number = 1;
+  private emphasisOpacity: number = 1;
+
+  // Per-frame inputs used across the drawing helpers
+  private frame!: RenderFrame;
+
+  constructor(ctx: RenderContext, options: RenderOptions, palette: ThemePalette) {
+    this.ctx = ctx;
+    this.options = { ...options };
+    this.palette = palette;
+  }
+
+  /**
+   * Update drawing options
+   */
+  configure(options: RenderOptions): void {
+    this.options = { ...options };
+  }
+
+  /**
+   * Use a new theme palette
+   */
+  setPalette(palette: ThemePalette): void {
+    this.palette = palette;
+  }
+
+  /**
+   * Size the drawing surface in CSS pixels at a device pixel ratio
+   */
+  resize(width: number, height: number, dpr: number): void {
+    this.ctx.canvas.width = width * dpr;
+    this.ctx.canvas.height = height * dpr;
+    this.ctx.scale(dpr, dpr);
+  }
+
+  /**
+   * Move the orb's resting position; it glides there unless snapped
+   */
+  placeAt(x: number, y: number, snap: boolean = false): void {
+    this.orbX = x;
+    this.orbY = y;
+    if (snap) {
+      this.targetX = this.currentX = x;
+      this.targetY = this.currentY = y;
+    }
+  }
+
+  /**
+   * Scale and opacity multipliers for dominant speaker highlighting
+   */
+  setEmphasis(scale: number, opacity: number): void {
+    this.emphasisScale = scale;
+    this.emphasisOpacity = opacity;
+  }
+
+  /**
+   * Drop internal forces and head back to the resting position
+   */
+  reset(): void {
+    this.forceSystem.clear();
+    this.targetX = this.orbX;
+    this.targetY = this.orbY;
+  }
+
+  /**
+   * Clear the whole drawing surface
+   */
+  clear(): void {
+    this.ctx.clearRect(0, 0, this.ctx.canvas.width, this.ctx.canvas.height);
+  }
+
+  /**
+   * Nothing to release on the main thread
+   */
+  destroy(): void {}
+
+  /**
+   * Advance forces and motion by one frame and draw the orb
+   */
+  render(frame: RenderFrame): void {
+    this.frame = frame;
+    const { dt, effectiveVolume, thresholds } = frame;
+
+    // Update force system, including forces spawned by the conversational state
+    this.forceSystem.setSpawnAngle(frame.spawnAngle);
+    this.forceSystem.setFadeMultiplier(frame.fadeMultiplier);
+    this.forceSystem.update(frame.smoothedVolume, thresholds.sensitivity, dt);
+    for (const force of frame.stateForces) {
+      this.forceSystem.addForce(force.angle, force.strength);
+    }
+
+    // Check if we have active effects
+    const hasActiveEffects = effectiveVolume >= thresholds.sensitivity || this.forceSystem.getActiveCount() > 0;
+
+    // Draw the orb
+    this.drawOrb(effectiveVolume, thresholds, hasActiveEffects, dt);
+
+    // Update time
+    const timeRate = effectiveVolume > thresholds.sensitivity ? TIME_RATE_ACTIVE : TIME_RATE_IDLE;
+    this.time += timeRate * dt / 1000;
+
+    // Draw debug info if enabled
+    if (frame.debug) {
+      this.drawDebugInfo(frame.debug, effectiveVolume, thresholds);
+    }
+  }
+
+  /**
+   * Draw the orb shape
+   */
+  private drawOrb(effectiveVolume: number, thresholds: CalibrationData, hasActiveEffects: boolean, dt: number): void {
+    this.ctx.globalAlpha = this.options.opacity * this.emphasisOpacity;
+
+    // Group highlight scales the whole orb around its resting position
+    const emphasized = this.emphasisScale !== 1;
+    if (emphasized) {
+      this.ctx.save();
+      this.ctx.translate(this.orbX, this.orbY);
+      this.ctx.scale(this.emphasisScale, this.emphasisScale);
+      this.ctx.translate(-this.orbX, -this.orbY);
+    }
+
+    if (this.frame.reducedMotion) {
+      this.drawReducedMotion(effectiveVolume, thresholds);
+    } else if (!hasActiveEffects) {
+      // Smoothly return to center when inactive
+      this.targetX = this.orbX;
+      this.targetY = this.orbY;
+      this.currentX = damp(this.currentX, this.targetX, RETURN_TO_CENTER_MS, dt);
+      this.currentY = damp(this.currentY, this.targetY, RETURN_TO_CENTER_MS, dt);
+
+      // Perfect circle when below threshold and no effects
+      this.ctx.fillStyle = this.getFillStyle(this.options.radius, effectiveVolume);
+      this.ctx.beginPath();
+      this.ctx.arc(this.currentX, this.currentY, this.options.radius, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.fillOverlays();
+
+    } else {
+      // Calculate movement based on volume level
+      this.updateOrbMovement(effectiveVolume, thresholds, dt);
+
+      // Generate organic blob shape
+      const blobPoints = this.generateBlobPoints(effectiveVolume, thresholds);
+
+      // Fit the fill to the furthest point of the deformed outline
+      let blobRadius = 0;
+      for (const point of blobPoints) {
+        blobRadius = Math.max(blobRadius, Math.hypot(point.x - this.currentX, point.y - this.currentY));
+      }
+      this.ctx.fillStyle = this.getFillStyle(blobRadius, effectiveVolume);
+
+      // Draw smooth blob
+      this.drawBlob(blobPoints);
+    }
+
+    if (emphasized) {
+      this.ctx.restore();
+    }
+
+    // Reset alpha
+    this.ctx.globalAlpha = 1;
+  }
+
+  /**
+   * Draw a stationary, undeformed orb that expresses volume through a pulse or ring level
+   */
+  private drawReducedMotion(effectiveVolume: number, thresholds: CalibrationData): void {
+    // No translation: pin the orb to its resting position
+    this.currentX = this.orbX;
+    this.currentY = this.orbY;
+    this.targetX = this.orbX;
+    this.targetY = this.orbY;
+
+    // Audio level, or the state's ambient breathing when that is stronger
+    const range = Math.max(thresholds.veryLoudThreshold - thresholds.sensitivity, 0.01);
+    const audioLevel = clamp((effectiveVolume - thresholds.sensitivity) / range, 0, 1);
+    const breathing = this.frame.ambient * (0.5 + 0.5 * Math.sin(this.frame.now * 0.005));
+    const level = Math.max(audioLevel, breathing);
+    const radius = this.options.radius;
+
+    if (this.options.reducedMotionStyle === 'ring') {
+      // Solid circle with a level ring filling clockwise from the top
+      this.ctx.fillStyle = this.getFillStyle(radius, effectiveVolume);
+      this.ctx.beginPath();
+      this.ctx.arc(this.orbX, this.orbY, radius, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.fillOverlays();
+
+      if (level > 0) {
+        const ringRadius = radius + Math.max(4, radius * 0.08);
+        this.ctx.strokeStyle = this.options.strokeColor ?? this.palette.strokeColor;
+        this.ctx.lineWidth = Math.max(3, radius * 0.05);
+        this.ctx.lineCap = 'round';
+        this.ctx.beginPath();
+        this.ctx.arc(this.orbX, this.orbY, ringRadius, -Math.PI / 2, -Math.PI / 2 + level * Math.PI * 2);
+        this.ctx.stroke();
+      }
+    } else {
+      // Gentle opacity and scale pulse
+      const pulseRadius = radius * (1 + level * 0.06);
+      this.ctx.globalAlpha = this.options.opacity * this.emphasisOpacity * (0.6 + level * 0.4);
+      this.ctx.fillStyle = this.getFillStyle(pulseRadius, effectiveVolume);
+      this.ctx.beginPath();
+      this.ctx.arc(this.orbX, this.orbY, pulseRadius, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.fillOverlays();
+    }
+  }
+
+  /**
+   * Overlay the duplex user color and error tint on the current path
+   */
+  private fillOverlays(): void {
+    const alpha = this.ctx.globalAlpha;
+
+    if (this.frame.duplexUserShare > 0.01) {
+      this.ctx.globalAlpha = alpha * this.frame.duplexUserShare;
+      this.ctx.fillStyle = this.options.duplexUserColor;
+      this.ctx.fill();
+    }
+
+    if (this.frame.stateTint > 0) {
+      this.ctx.globalAlpha = alpha * this.frame.stateTint;
+      this.ctx.fillStyle = this.options.errorColor;
+      this.ctx.fill();
+    }
+
+    this.ctx.globalAlpha = alpha;
+  }
+
+  /**
+   * Resolve fill style for the current frame
+   */
+  private getFillStyle(radius: number, effectiveVolume: number): string | CanvasGradient {
+    // Pitch-driven hue shift in degrees, skipped when imperceptible
+    const hueShift = this.frame.pitchPosition * this.frame.pitchPresence * this.options.pitchHueShift;
+    const shiftHue = Math.abs(hueShift) >= 0.5;
+
+    let stops: GradientStop[] = this.options.gradientStops ?? this.palette.gradientStops;
+    if (this.options.fillMode !== 'gradient' || !stops.length || !this.frame.quality.allowGradient) {
+      const color = this.options.color ?? this.palette.color;
+      return shiftHue ? rotateHue(this.ctx, color, hueShift) : color;
+    }
+    if (shiftHue) {
+      stops = stops.map(stop => ({ ...stop, color: rotateHue(this.ctx, stop.color, hueShift) }));
+    }
+
+    return createOrbGradient(this.ctx, {
+      type: this.options.gradientType,
+      stops,
+      centerX: this.currentX,
+      centerY: this.currentY,
+      radius,
+      angle: this.options.gradientAngle,
+      volume: effectiveVolume,
+      // A drifting gradient center reads as motion, so it is held still in reduced motion
+      volumeShift: this.frame.reducedMotion && this.options.gradientVolumeShift === 'center'
+        ? 'none'
+        : this.options.gradientVolumeShift,
+      shiftAmount: this.options.gradientShiftAmount,
+      offsetX: this.currentX - this.orbX,
+      offsetY: this.currentY - this.orbY
+    });
+  }
+
+  /**
+   * Update orb movement based on audio level
+   */
+  private updateOrbMovement(effectiveVolume: number, thresholds: CalibrationData, dt: number): void {
+    let moveAmount = 0;
+    let moveSpeed = 1;
+
+    if (effectiveVolume > thresholds.veryLoudThreshold) {
+      // Very loud: dramatic movement
+      const agitation = (effectiveVolume - thresholds.veryLoudThreshold) * 2;
+      moveAmount = agitation * 30;
+      moveSpeed = 2 + agitation * 6;
+      this.targetX = this.orbX + Math.sin(this.time * moveSpeed) * moveAmount +
+                   Math.sin(this.time * moveSpeed * 1.3) * moveAmount * 0.5;
+      this.targetY = this.orbY + Math.cos(this.time * moveSpeed * 0.8) * moveAmount +
+                   Math.cos(this.time * moveSpeed * 1.2) * moveAmount * 0.4;
+    } else if (effectiveVolume > thresholds.loudThreshold) {
+      // Loud: moderate movement
+      const agitation = (effectiveVolume - thresholds.loudThreshold) * 3;
+      moveAmount = agitation * 20;
+      moveSpeed = 1.5 + agitation * 3;
+      this.targetX = this.orbX + Math.sin(this.time * moveSpeed) * moveAmount;
+      this.targetY = this.orbY + Math.cos(this.time * moveSpeed * 0.75) * moveAmount;
+    } else {
+      // Active: gentle movement
+      const adjustedVolume = Math.max(0, effectiveVolume - thresholds.sensitivity);
+      moveAmount = adjustedVolume * 12;
+      moveSpeed = 1.2 + adjustedVolume * 2;
+      this.targetX = this.orbX + Math.sin(this.time * moveSpeed) * moveAmount;
+      this.targetY = this.orbY + Math.cos(this.time * moveSpeed * 0.9) * moveAmount;
+    }
+
+    // Higher pitch lifts the orb
+    this.targetY -= this.frame.pitchPosition * this.frame.pitchPresence * this.options.pitchDrift;
+
+    // Clamp movement to max offset
+    const maxOffset = this.options.maxOffset;
+    this.targetX = clamp(this.targetX, this.orbX - maxOffset, this.orbX + maxOffset);
+    this.targetY = clamp(this.targetY, this.orbY - maxOffset, this.orbY + maxOffset);
+
+    // Smooth position transitions
+    const agitation = Math.max(0, effectiveVolume - thresholds.sensitivity);
+    const positionTimeConstant = timeConstantFromFactor(0.02 + agitation * agitation * 0.06);
+    this.currentX = damp(this.currentX, this.targetX, positionTimeConstant, dt);
+    this.currentY = damp(this.currentY, this.targetY, positionTimeConstant, dt);
+  }
+
+  /**
+   * Generate blob points for organic shape
+   */
+  private generateBlobPoints(effectiveVolume: number, thresholds: CalibrationData): BlobPoint[] {
+    const points: BlobPoint[] = [];
+    const numPoints = Math.max(8, Math.round(this.options.pointCount * this.frame.quality.pointScale));
+    const fadeMultiplier = this.frame.fadeMultiplier;
+
+    for (let i = 0; i < numPoints; i++) {
+      const angle = (i / numPoints) * Math.PI * 2;
+
+      // Start with base radius
+      let radius = this.options.radius;
+
+      // Get influence from internal forces
+      const forceInfluence = this.forceSystem.getInfluenceAt(angle) * fadeMultiplier;
+
+      // Add controlled audio reaction
+      const adjustedVolume = Math.max(0, effectiveVolume - thresholds.sensitivity);
+      const audioAmplitude = adjustedVolume * 40 * fadeMultiplier;
+
+      // Audio-driven displacement: per-band energy or generic wave patterns
+      let audioDisplacement: number;
+      if (this.options.deformation === 'spectral') {
+        const bandLevel = this.getBandLevelAt(i / numPoints);
+        audioDisplacement = bandLevel * this.options.radius * 0.5 * this.options.spectralIntensity * fadeMultiplier;
+      } else {
+        const wave1 = Math.sin(angle * 2 + this.time * 2) * audioAmplitude;
+        const wave2 = Math.sin(angle * 3 - this.time * 1.5) * audioAmplitude * 0.6;
+        const wave3 = Math.sin(angle * 1.5 + this.time * 2.5) * audioAmplitude * 0.4;
+        audioDisplacement = wave1 + wave2 + wave3;
+      }
+
+      // Gentle organic variation
+      const organicNoise = (Math.sin(angle * 4 + this.time * 0.6) * 4 +
+                          Math.sin(angle * 5 - this.time * 0.4) * 2) * fadeMultiplier;
+
+      // Combine effects
+      radius += forceInfluence + audioDisplacement + organicNoise;
+
+      // Conservative bounds
+      radius = Math.max(radius, this.options.radius * (0.6 + (1 - fadeMultiplier) * 0.4));
+      radius = Math.min(radius, this.options.radius * (1 + (1.8 + adjustedVolume * 0.7 - 1) * fadeMultiplier));
+
+      const x = this.currentX + Math.cos(angle) * radius;
+      const y = this.currentY + Math.sin(angle) * radius;
+
+      points.push({ x, y });
+    }
+
+    return points;
+  }
+
+  /**
+   * Sample band level at a position around the outline (0-1), interpolating between bands
+   */
+  private getBandLevelAt(position: number): number {
+    const bandLevels = this.frame.bandLevels;
+    const bandCount = bandLevels.length;
+    if (bandCount === 0) return 0;
+
+    if (this.options.spectralMirror) {
+      // Low bands at the top, high bands at the bottom, mirrored left/right
+      const shifted = (position + 0.25) % 1;
+      const mirrored = shifted <= 0.5 ? shifted * 2 : (1 - shifted) * 2;
+      const bandPos = mirrored * (bandCount - 1);
+      const lower = Math.floor(bandPos);
+      const upper = Math.min(lower + 1, bandCount - 1);
+      return bandLevels[lower] + (bandLevels[upper] - bandLevels[lower]) * (bandPos - lower);
+    }
+
+    const bandPos = position * bandCount;
+    const lower = Math.floor(bandPos) % bandCount;
+    const upper = (lower + 1) % bandCount;
+    return bandLevels[lower] + (bandLevels[upper] - bandLevels[lower]) * (bandPos - Math.floor(bandPos));
+  }
+
+  /**
+   * Draw smooth blob using quadratic curves
+   */
+  private drawBlob(points: BlobPoint[]): void {
+    const numPoints = points.length;
+
+    this.ctx.beginPath();
+
+    // Move to starting point
+    this.ctx.moveTo(
+      (points[numPoints - 1].x + points[0].x) / 2,
+      (points[numPoints - 1].y + points[0].y) / 2
+    );
+
+    // Draw smooth curves through all points
+    for (let i = 0; i < numPoints; i++) {
+      const current = points[i];
+      const next = points[(i + 1) % numPoints];
+
+      // Use quadratic curves for smooth results
+      const midX = (current.x + next.x) / 2;
+      const midY = (current.y + next.y) / 2;
+
+      this.ctx.quadraticCurveTo(current.x, current.y, midX, midY);
+    }
+
+    this.ctx.closePath();
+    this.ctx.fill();
+    this.fillOverlays();
+
+    // Draw stroke if enabled
+    if (this.options.strokeWidth > 0 && this.frame.quality.allowStroke) {
+      this.ctx.strokeStyle = this.options.strokeColor ?? this.palette.strokeColor;
+      this.ctx.lineWidth = this.options.strokeWidth;
+      this.ctx.stroke();
+    }
+  }
+
+  /**
+   * Draw debug information overlay
+   */
+  private drawDebugInfo(debug: DebugInfo, effectiveVolume: number, thresholds: CalibrationData): void {
+    const colors = this.palette.debug;
+    this.ctx.fillStyle = colors.text;
+    this.ctx.font = '12px monospace';
+    this.ctx.textAlign = 'left';
+
+    const debugInfo = [
+      `Mode: ${debug.mode.toUpperCase()}`,
+      `State: ${debug.state}`,
+      `Raw Volume: ${debug.rawVolume.toFixed(3)}`,
+      `Effective Volume: ${effectiveVolume.toFixed(3)}`,
+      `Smoothed Volume: ${this.frame.smoothedVolume.toFixed(3)}`,
+      `Baseline: ${thresholds.baseline.toFixed(3)}`,
+      `Gain: ${thresholds.gain.toFixed(2)}`,
+      `Fade: ${this.frame.fadeMultiplier.toFixed(3)}`,
+      `Forces: ${this.forceSystem.getActiveCount()}`,
+      `Quality: ${debug.qualityLevel} (${debug.frameCost.toFixed(1)}ms)`,
+      `Sensitivity: ${thresholds.sensitivity.toFixed(3)}`,
+      `Loud: ${thresholds.loudThreshold.toFixed(3)}`,
+      `Very Loud: ${thresholds.veryLoudThreshold.toFixed(3)}`
+    ];
+
+    const canvasWidth = this.ctx.canvas.width;
+    debugInfo.forEach((info, index) => {
+      this.ctx.fillText(info, canvasWidth - 250, 20 + index * 16);
+    });
+
+    // Volume bar
+    const barY = 20 + debugInfo.length * 16 + 10;
+    const barWidth = 200;
+    const barHeight = 10;
+    const barX = canvasWidth - 250;
+
+    // Background
+    this.ctx.fillStyle = colors.barBackground;
+    this.ctx.fillRect(barX, barY, barWidth, barHeight);
+
+    // Volume fill
+    this.ctx.fillStyle = effectiveVolume > thresholds.sensitivity ? colors.barActive : colors.barIdle;
+    this.ctx.fillRect(barX, barY, effectiveVolume * barWidth, barHeight);
+
+    // Threshold markers
+    this.ctx.fillStyle = colors.sensitivity;
+    this.ctx.fillRect(barX + thresholds.sensitivity * barWidth, barY - 2, 2, barHeight + 4);
+    this.ctx.fillStyle = colors.loud;
+    this.ctx.fillRect(barX + thresholds.loudThreshold * barWidth, barY - 2, 2, barHeight + 4);
+    this.ctx.fillStyle = colors.veryLoud;
+    this.ctx.fillRect(barX + thresholds.veryLoudThreshold * barWidth, barY - 2, 2, barHeight + 4);
+  }
+}
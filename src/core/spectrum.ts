@@ -0,0 +1,224 @@
+import { clamp, damp, REFERENCE_FRAME_MS } from './utils.js';
+
+/**
+ * Configuration for grouping analyser bins into frequency bands
+ */
+export interface SpectralBandConfig {
+  bandCount: number;
+  minFrequency: number;
+  maxFrequency: number;
+  attackMs: number;
+  releaseMs: number;
+}
+
+interface BandRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Groups FFT bins into log-spaced bands with per-band calibration and smoothing
+ */
+export class SpectralBands {
+  private config: SpectralBandConfig;
+  private ranges: BandRange[] = [];
+  private binCount: number = 0;
+  private sampleRate: number = 0;
+
+  // Per-band state
+  private levels: Float32Array;
+  private noiseFloor: Float32Array;
+  private peaks: Float32Array;
+
+  // Calibration accumulators
+  private isCalibrating: boolean = false;
+  private calibrationSums: Float32Array;
+  private calibrationFrames: number = 0;
+
+  private readonly PEAK_DECAY_MS = 3300;
+  private readonly MIN_RANGE = 0.1;
+
+  constructor(config: SpectralBandConfig) {
+    this.config = { ...config };
+    this.levels = new Float32Array(config.bandCount);
+    this.noiseFloor = new Float32Array(config.bandCount);
+    this.peaks = new Float32Array(config.bandCount);
+    this.calibrationSums = new Float32Array(config.bandCount);
+  }
+
+  /**
+   * Update band configuration, resetting per-band state if the layout changes
+   */
+  configure(config: Partial<SpectralBandConfig>): void {
+    const previous = this.config;
+    this.config = { ...this.config, ...config };
+
+    if (this.config.bandCount !== previous.bandCount ||
+        this.config.minFrequency !== previous.minFrequency ||
+        this.config.maxFrequency !== previous.maxFrequency) {
+      this.levels = new Float32Array(this.config.bandCount);
+      this.noiseFloor = new Float32Array(this.config.bandCount);
+      this.peaks = new Float32Array(this.config.bandCount);
+      this.calibrationSums = new Float32Array(this.config.bandCount);
+      this.calibrationFrames = 0;
+      this.ranges = [];
+    }
+  }
+
+  /**
+   * Compute log-spaced bin ranges for the current analyser layout
+   */
+  private buildRanges(binCount: number, sampleRate: number): void {
+    this.binCount = binCount;
+    this.sampleRate = sampleRate;
+    this.ranges = [];
+
+    const nyquist = sampleRate / 2;
+    const minFreq = clamp(this.config.minFrequency, 1, nyquist);
+    const maxFreq = clamp(this.config.maxFrequency, minFreq, nyquist);
+    const ratio = maxFreq / minFreq;
+    const count = this.config.bandCount;
+
+    let previousEnd = Math.floor((minFreq / nyquist) * binCount);
+    for (let b = 0; b < count; b++) {
+      const edgeFreq = minFreq * Math.pow(ratio, (b + 1) / count);
+      const start = Math.min(previousEnd, binCount - 1);
+      const end = clamp(Math.round((edgeFreq / nyquist) * binCount), start + 1, binCount);
+      this.ranges.push({ start, end });
+      previousEnd = end;
+    }
+  }
+
+  /**
+   * Process a frame of byte frequency data and return smoothed band levels (0-1)
+   */
+  process(frequencyData: Uint8Array, sampleRate: number, dtMs: number = REFERENCE_FRAME_MS): Float32Array {
+    if (this.ranges.length !== this.config.bandCount ||
+        this.binCount !== frequencyData.length ||
+        this.sampleRate !== sampleRate) {
+      this.buildRanges(frequencyData.length, sampleRate);
+    }
+
+    for (let b = 0; b < this.ranges.length; b++) {
+      const { start, end } = this.ranges[b];
+      let sum = 0;
+      for (let i = start; i < end; i++) {
+        sum += frequencyData[i];
+      }
+      const energy = sum / (end - start) / 255;
+
+      if (this.isCalibrating) {
+        this.calibrationSums[b] += energy;
+        this.levels[b] = 0;
+        continue;
+      }
+
+      this.applyLevel(b, this.normalize(b, energy, dtMs), dtMs);
+    }
+
+    if (this.isCalibrating) {
+      this.calibrationFrames++;
+    }
+
+    return this.levels;
+  }
+
+  /**
+   * Feed already-normalized band targets (used for simulated input)
+   */
+  processTargets(targets: ArrayLike<number>, dtMs: number = REFERENCE_FRAME_MS): Float32Array {
+    for (let b = 0; b < this.levels.length; b++) {
+      this.applyLevel(b, clamp(targets[b] ?? 0, 0, 1), dtMs);
+    }
+    return this.levels;
+  }
+
+  /**
+   * Normalize raw band energy against its noise floor and running peak
+   */
+  private normalize(band: number, energy: number, dtMs: number): number {
+    const floor = this.noiseFloor[band];
+    const decayedPeak = this.peaks[band] * Math.exp(-dtMs / this.PEAK_DECAY_MS);
+    this.peaks[band] = Math.max(decayedPeak, energy, floor + this.MIN_RANGE);
+    return clamp((energy - floor) / (this.peaks[band] - floor), 0, 1);
+  }
+
+  /**
+   * Smooth a band toward its target with separate attack and release rates
+   */
+  private applyLevel(band: number, target: number, dtMs: number): void {
+    const current = this.levels[band];
+    const timeConstant = target > current ? this.config.attackMs : this.config.releaseMs;
+    this.levels[band] = damp(current, target, timeConstant, dtMs);
+  }
+
+  /**
+   * Begin collecting per-band noise floor samples
+   */
+  startCalibration(): void {
+    this.isCalibrating = true;
+    this.calibrationSums.fill(0);
+    this.calibrationFrames = 0;
+  }
+
+  /**
+   * Finish calibration and derive per-band noise floors
+   */
+  finishCalibration(): void {
+    if (!this.isCalibrating) return;
+    this.isCalibrating = false;
+
+    if (this.calibrationFrames === 0) return;
+    for (let b = 0; b < this.noiseFloor.length; b++) {
+      this.noiseFloor[b] = this.calibrationSums[b] / this.calibrationFrames;
+      this.peaks[b] = this.noiseFloor[b] + this.MIN_RANGE;
+    }
+  }
+
+  /**
+   * Get calibrated per-band noise floors
+   */
+  getNoiseFloors(): number[] {
+    return Array.from(this.noiseFloor);
+  }
+
+  /**
+   * Restore per-band noise floors from a saved profile, ignored if the band layout differs
+   */
+  setNoiseFloors(floors: ArrayLike<number>): boolean {
+    if (floors.length !== this.noiseFloor.length) return false;
+
+    this.isCalibrating = false;
+    for (let b = 0; b < this.noiseFloor.length; b++) {
+      this.noiseFloor[b] = floors[b];
+      this.peaks[b] = floors[b] + this.MIN_RANGE;
+    }
+    return true;
+  }
+
+  /**
+   * Get current smoothed band levels
+   */
+  getLevels(): Float32Array {
+    return this.levels;
+  }
+
+  /**
+   * Get the number of configured bands
+   */
+  getBandCount(): number {
+    return this.config.bandCount;
+  }
+
+  /**
+   * Reset levels and calibration data
+   */
+  reset(): void {
+    this.isCalibrating = false;
+    this.calibrationFrames = 0;
+    this.levels.fill(0);
+    this.noiseFloor.fill(0);
+    this.peaks.fill(0);
+    this.calibrationSums.fill(0);
+  }
+}
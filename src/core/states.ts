@@ -0,0 +1,134 @@
+import { ConversationState } from '../types.js';
+import { easeInOutCubic, lerp } from './utils.js';
+
+/**
+ * Animation parameters for a conversational state
+ */
+export interface StateStyle {
+  // Forces spawned per second
+  pulseRate: number;
+  // Rotation of the spawn angle in radians per second (0 = random angles)
+  rotationSpeed: number;
+  // Strength of spawned forces
+  forceStrength: number;
+  // Opacity/scale breathing used by reduced motion (0-1)
+  ambient: number;
+  // Weight of the error tint (0-1)
+  tint: number;
+}
+
+const STATE_STYLES: Record<ConversationState, StateStyle> = {
+  idle: { pulseRate: 0, rotationSpeed: 0, forceStrength: 0, ambient: 0, tint: 0 },
+  listening: { pulseRate: 0.5, rotationSpeed: 0, forceStrength: 4, ambient: 0.15, tint: 0 },
+  thinking: { pulseRate: 6, rotationSpeed: 3, forceStrength: 12, ambient: 0.6, tint: 0 },
+  speaking: { pulseRate: 1.5, rotationSpeed: 0, forceStrength: 8, ambient: 0.3, tint: 0 },
+  error: { pulseRate: 0, rotationSpeed: 0, forceStrength: 0, ambient: 0, tint: 1 }
+};
+
+/**
+ * Allowed transitions between conversational states
+ */
+const STATE_TRANSITIONS: Record<ConversationState, ConversationState[]> = {
+  idle: ['listening', 'speaking', 'error'],
+  listening: ['idle', 'thinking', 'speaking', 'error'],
+  thinking: ['idle', 'listening', 'speaking', 'error'],
+  speaking: ['idle', 'listening', 'thinking', 'error'],
+  error: ['idle', 'listening']
+};
+
+/**
+ * Tracks the conversational state and cross-fades animation styles between states
+ */
+export class ConversationStateMachine {
+  private state: ConversationState = 'idle';
+  private fromStyle: StateStyle = STATE_STYLES.idle;
+  private transitionElapsed: number = 0;
+  private transitionMs: number;
+
+  // Force spawning
+  private spawnAngle: number = 0;
+  private spawnAccumulator: number = 0;
+
+  constructor(transitionMs: number = 400) {
+    this.transitionMs = transitionMs;
+  }
+
+  /**
+   * Whether a transition from the current state is allowed
+   */
+  canTransition(to: ConversationState): boolean {
+    return to === this.state || STATE_TRANSITIONS[this.state].includes(to);
+  }
+
+  /**
+   * Move to a new state, throwing on transitions the machine doesn't allow
+   */
+  transition(to: ConversationState, force: boolean = false): ConversationState {
+    const previous = this.state;
+    if (to === previous) return previous;
+    if (!force && !this.canTransition(to)) {
+      throw new Error(`Invalid state transition: ${previous} -> ${to}`);
+    }
+
+    // Start the cross-fade from whatever mix is currently on screen
+    this.fromStyle = this.getStyle();
+    this.transitionElapsed = 0;
+    this.state = to;
+    return previous;
+  }
+
+  /**
+   * Advance the cross-fade and return how many forces to spawn this step
+   */
+  update(dtMs: number): number {
+    this.transitionElapsed = Math.min(this.transitionElapsed + dtMs, this.transitionMs);
+
+    const style = this.getStyle();
+    this.spawnAngle = (this.spawnAngle + style.rotationSpeed * dtMs / 1000) % (Math.PI * 2);
+    this.spawnAccumulator += style.pulseRate * dtMs / 1000;
+
+    const count = Math.floor(this.spawnAccumulator);
+    this.spawnAccumulator -= count;
+    return count;
+  }
+
+  /**
+   * Angle for the next spawned force
+   */
+  getSpawnAngle(): number {
+    const style = this.getStyle();
+    return style.rotationSpeed !== 0 ? this.spawnAngle : Math.random() * Math.PI * 2;
+  }
+
+  /**
+   * Current blended style
+   */
+  getStyle(): StateStyle {
+    const target = STATE_STYLES[this.state];
+    const progress = this.transitionMs > 0 ? this.transitionElapsed / this.transitionMs : 1;
+    if (progress >= 1) return target;
+
+    const t = easeInOutCubic(progress);
+    return {
+      pulseRate: lerp(this.fromStyle.pulseRate, target.pulseRate, t),
+      rotationSpeed: lerp(this.fromStyle.rotationSpeed, target.rotationSpeed, t),
+      forceStrength: lerp(this.fromStyle.forceStrength, target.forceStrength, t),
+      ambient: lerp(this.fromStyle.ambient, target.ambient, t),
+      tint: lerp(this.fromStyle.tint, target.tint, t)
+    };
+  }
+
+  /**
+   * Get current state
+   */
+  getState(): ConversationState {
+    return this.state;
+  }
+
+  /**
+   * Update cross-fade duration
+   */
+  setTransitionMs(ms: number): void {
+    this.transitionMs = ms;
+  }
+}
@@ -0,0 +1,415 @@
+import { PcmFormat } from '../types.js';
+
+/**
+ * Raw PCM input accepted by the stream player
+ */
+export type PcmInput = ArrayBuffer | Int16Array | Float32Array | string;
+
+/**
+ * Plays raw PCM chunks and decoded buffers back-to-back on the AudioContext timeline.
+ *
+ * PCM chunks are decoded, resampled to the context rate with state carried across
+ * chunk boundaries, and scheduled gaplessly behind a small jitter buffer. All
+ * audio passes through one gain node so queued playback can be faded out and flushed.
+ * Pausing stops the sources and reschedules the unplayed rest on resume, so a
+ * context shared with other audio keeps running.
+ */
+export class PcmStreamPlayer {
+  private context: AudioContext;
+  private gain: GainNode;
+  private jitterBufferMs: number;
+  private nextStartTime: number = 0;
+  private activeSources = new Set<AudioBufferSourceNode>();
+  // Where each source starts on the timeline and how far into its buffer
+  private timings = new WeakMap<AudioBufferSourceNode, { startTime: number; offset: number }>();
+  // Unplayed audio while paused, null while playing
+  private held: { buffer: AudioBuffer; offset: number }[] | null = null;
+  // Set once the sender signals the end of a stream, so the next chunk isn't an underrun
+  private streamEnded: boolean = true;
+  // Context time before which nothing new may start (end of an interrupt fade)
+  private blockedUntil: number = 0;
+
+  // Leftover bytes when a chunk splits a frame
+  private pendingBytes: Uint8Array | null = null;
+
+  // Resampler state per channel
+  private resampleRatio: number = 1;
+  private resamplePosition: number = 0;
+  private lastSamples: number[] = [];
+  private currentFormat: PcmFormat | null = null;
+
+  // Callbacks
+  private onSourceStart?: () => void;
+  private onSourceEnd?: () => void;
+  private onUnderrun?: (gapMs: number) => void;
+  private onChunkEnd?: (queueDepth: number) => void;
+  private onDrained?: () => void;
+
+  constructor(
+    context: AudioContext,
+    outputs: AudioNode[],
+    options: {
+      jitterBufferMs?: number;
+      onSourceStart?: () => void;
+      onSourceEnd?: () => void;
+      onUnderrun?: (gapMs: number) => void;
+      onChunkEnd?: (queueDepth: number) => void;
+      onDrained?: () => void;
+    } = {}
+  ) {
+    this.context = context;
+    this.gain = context.createGain();
+    outputs.forEach(node => this.gain.connect(node));
+    this.jitterBufferMs = options.jitterBufferMs ?? 80;
+    this.onSourceStart = options.onSourceStart;
+    this.onSourceEnd = options.onSourceEnd;
+    this.onUnderrun = options.onUnderrun;
+    this.onChunkEnd = options.onChunkEnd;
+    this.onDrained = options.onDrained;
+  }
+
+  /**
+   * Schedule an already decoded buffer after any queued audio
+   */
+  enqueueBuffer(buffer: AudioBuffer): void {
+    this.schedule(buffer);
+  }
+
+  /**
+   * Decode, resample and schedule one chunk
+   */
+  enqueue(input: PcmInput, format: PcmFormat): void {
+    const channels = Math.max(1, format.channels ?? 1);
+    if (!this.currentFormat ||
+        this.currentFormat.sampleRate !== format.sampleRate ||
+        (this.currentFormat.channels ?? 1) !== channels ||
+        this.currentFormat.encoding !== format.encoding) {
+      this.resetResampler(format, channels);
+    }
+
+    const channelData = this.decode(input, format.encoding, channels);
+    if (channelData[0].length === 0) return;
+
+    const resampled = this.resample(channelData);
+    const frameCount = resampled[0].length;
+    if (frameCount === 0) return;
+
+    const buffer = this.context.createBuffer(channels, frameCount, this.context.sampleRate);
+    resampled.forEach((data, channel) => buffer.getChannelData(channel).set(data));
+
+    this.schedule(buffer);
+  }
+
+  /**
+   * Schedule a buffer directly after the previous one, or hold it while paused.
+   * Held audio was already counted as started, so rescheduling it is `resumed`.
+   */
+  private schedule(buffer: AudioBuffer, offset: number = 0, resumed: boolean = false): void {
+    if (this.held) {
+      this.held.push({ buffer, offset });
+      this.streamEnded = false;
+      this.onSourceStart?.();
+      return;
+    }
+
+    const now = this.context.currentTime;
+    const jitterSeconds = this.jitterBufferMs / 1000;
+
+    if (this.activeSources.size === 0 || this.nextStartTime < now) {
+      // Starting fresh, or the schedule ran dry before this chunk arrived
+      if (!this.streamEnded && this.nextStartTime > 0 && this.nextStartTime < now) {
+        this.onUnderrun?.((now - this.nextStartTime) * 1000);
+      }
+      this.nextStartTime = Math.max(now + jitterSeconds, this.blockedUntil);
+    }
+    this.streamEnded = false;
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.gain);
+    source.onended = () => {
+      this.activeSources.delete(source);
+      source.disconnect();
+      this.onChunkEnd?.(this.activeSources.size);
+      if (this.activeSources.size === 0) {
+        this.onDrained?.();
+      }
+      this.onSourceEnd?.();
+    };
+
+    source.start(this.nextStartTime, offset);
+    this.timings.set(source, { startTime: this.nextStartTime, offset });
+    this.nextStartTime += buffer.duration - offset;
+    this.activeSources.add(source);
+    if (!resumed) {
+      this.onSourceStart?.();
+    }
+  }
+
+  /**
+   * Convert input to per-channel float samples
+   */
+  private decode(input: PcmInput, encoding: PcmFormat['encoding'], channels: number): Float32Array[] {
+    if (input instanceof Float32Array) {
+      return this.deinterleave(input, channels);
+    }
+    if (input instanceof Int16Array) {
+      const floats = new Float32Array(input.length);
+      for (let i = 0; i < input.length; i++) {
+        floats[i] = input[i] / 32768;
+      }
+      return this.deinterleave(floats, channels);
+    }
+
+    let bytes = typeof input === 'string' ? decodeBase64(input) : new Uint8Array(input);
+
+    // Prepend bytes left over from a frame split across chunks
+    if (this.pendingBytes) {
+      const joined = new Uint8Array(this.pendingBytes.length + bytes.length);
+      joined.set(this.pendingBytes);
+      joined.set(bytes, this.pendingBytes.length);
+      bytes = joined;
+      this.pendingBytes = null;
+    }
+
+    const bytesPerSample = encoding === 'float32' ? 4 : 2;
+    const frameBytes = bytesPerSample * channels;
+    const usableBytes = bytes.length - (bytes.length % frameBytes);
+    if (usableBytes < bytes.length) {
+      this.pendingBytes = bytes.slice(usableBytes);
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, usableBytes);
+    const sampleCount = usableBytes / bytesPerSample;
+    const floats = new Float32Array(sampleCount);
+    for (let i = 0; i < sampleCount; i++) {
+      floats[i] = encoding === 'float32'
+        ? view.getFloat32(i * 4, true)
+        : view.getInt16(i * 2, true) / 32768;
+    }
+
+    return this.deinterleave(floats, channels);
+  }
+
+  /**
+   * Split interleaved samples into channels
+   */
+  private deinterleave(samples: Float32Array, channels: number): Float32Array[] {
+    if (channels === 1) return [samples];
+
+    const frames = Math.floor(samples.length / channels);
+    const result: Float32Array[] = [];
+    for (let c = 0; c < channels; c++) {
+      const data = new Float32Array(frames);
+      for (let i = 0; i < frames; i++) {
+        data[i] = samples[i * channels + c];
+      }
+      result.push(data);
+    }
+    return result;
+  }
+
+  /**
+   * Linear resampling to the context rate, continuous across chunks
+   */
+  private resample(channelData: Float32Array[]): Float32Array[] {
+    if (this.resampleRatio === 1) return channelData;
+
+    const inputFrames = channelData[0].length;
+    // Position 0 is the previous chunk's last sample, position k is data[k - 1]
+    const outputFrames = Math.max(0, Math.ceil((inputFrames - this.resamplePosition) / this.resampleRatio));
+    const result = channelData.map(() => new Float32Array(outputFrames));
+
+    let position = this.resamplePosition;
+    for (let i = 0; i < outputFrames; i++) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      for (let c = 0; c < channelData.length; c++) {
+        const data = channelData[c];
+        const a = index - 1 < 0 ? this.lastSamples[c] : data[index - 1];
+        const b = data[index];
+        result[c][i] = a + (b - a) * fraction;
+      }
+      position += this.resampleRatio;
+    }
+
+    this.resamplePosition = position - inputFrames;
+    channelData.forEach((data, c) => {
+      this.lastSamples[c] = data[inputFrames - 1];
+    });
+
+    return result;
+  }
+
+  /**
+   * Reset resampler for a new input format
+   */
+  private resetResampler(format: PcmFormat, channels: number): void {
+    this.currentFormat = { ...format, channels };
+    this.resampleRatio = format.sampleRate / this.context.sampleRate;
+    this.resamplePosition = 1;
+    this.lastSamples = new Array(channels).fill(0);
+    this.pendingBytes = null;
+  }
+
+  /**
+   * Mark the current stream as complete; already scheduled audio keeps playing
+   */
+  end(): void {
+    this.streamEnded = true;
+  }
+
+  /**
+   * Seconds of audio scheduled but not yet played
+   */
+  getBufferedDuration(): number {
+    if (this.held) {
+      return this.held.reduce((total, item) => total + item.buffer.duration - item.offset, 0);
+    }
+    return Math.max(0, this.nextStartTime - this.context.currentTime);
+  }
+
+  /**
+   * Number of chunks queued or playing
+   */
+  getQueueDepth(): number {
+    return this.held ? this.held.length : this.activeSources.size;
+  }
+
+  /**
+   * Stop playback, keeping the unplayed rest of every queued chunk
+   */
+  pause(): void {
+    if (this.held) return;
+
+    const now = this.context.currentTime;
+    const held: { buffer: AudioBuffer; offset: number }[] = [];
+    // Sources are kept in scheduling order
+    this.activeSources.forEach(source => {
+      const timing = this.timings.get(source);
+      source.onended = null;
+      try {
+        source.stop();
+      } catch (e) {
+        // Already stopped
+      }
+      source.disconnect();
+
+      const offset = timing ? timing.offset + Math.max(0, now - timing.startTime) : 0;
+      if (source.buffer && offset < source.buffer.duration) {
+        held.push({ buffer: source.buffer, offset });
+      } else {
+        // Finished, its ended event just hadn't fired yet
+        this.onSourceEnd?.();
+      }
+    });
+    this.activeSources.clear();
+    this.nextStartTime = 0;
+    this.held = held;
+  }
+
+  /**
+   * Reschedule held audio from where it was paused
+   */
+  resume(): void {
+    const held = this.held;
+    if (!held) return;
+
+    this.held = null;
+    const streamEnded = this.streamEnded;
+    held.forEach(item => this.schedule(item.buffer, item.offset, true));
+    this.streamEnded = streamEnded;
+  }
+
+  /**
+   * Whether playback is paused
+   */
+  isPaused(): boolean {
+    return this.held !== null;
+  }
+
+  /**
+   * Fade out and flush all queued audio, returning the discarded duration in seconds
+   */
+  interrupt(fadeMs: number): number {
+    const now = this.context.currentTime;
+    const discarded = this.getBufferedDuration();
+
+    // Nothing is audible while paused, so there is nothing to fade
+    if (this.held) {
+      this.held.forEach(() => this.onSourceEnd?.());
+      this.held = null;
+      this.flush(now);
+      return discarded;
+    }
+    if (this.activeSources.size === 0) return 0;
+
+    const fadeEnd = now + Math.max(fadeMs, 0) / 1000;
+    this.gain.gain.cancelScheduledValues(now);
+    this.gain.gain.setValueAtTime(this.gain.gain.value, now);
+    this.gain.gain.linearRampToValueAtTime(0, fadeEnd);
+    // Restore gain for whatever is queued after the fade
+    this.gain.gain.setValueAtTime(1, fadeEnd);
+
+    this.flush(fadeEnd);
+    this.blockedUntil = fadeEnd;
+    return discarded;
+  }
+
+  /**
+   * Stop all sources at the given context time and reset the timeline
+   */
+  private flush(when: number): void {
+    this.activeSources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop(when);
+      } catch (e) {
+        // Already stopped
+      }
+      this.onSourceEnd?.();
+    });
+    this.activeSources.clear();
+    this.nextStartTime = 0;
+    this.streamEnded = true;
+    this.currentFormat = null;
+    this.pendingBytes = null;
+  }
+
+  /**
+   * Stop all scheduled audio immediately and release the output
+   */
+  stop(): void {
+    this.held?.forEach(() => this.onSourceEnd?.());
+    this.held = null;
+    this.activeSources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch (e) {
+        // Already stopped
+      }
+      source.disconnect();
+      this.onSourceEnd?.();
+    });
+    this.activeSources.clear();
+    this.gain.disconnect();
+    this.nextStartTime = 0;
+    this.streamEnded = true;
+    this.currentFormat = null;
+    this.pendingBytes = null;
+  }
+}
+
+/**
+ * Decode a base64 string (optionally a data URL) to bytes
+ */
+function decodeBase64(data: string): Uint8Array {
+  const commaIndex = data.startsWith('data:') ? data.indexOf(',') : -1;
+  const binary = atob(commaIndex >= 0 ? data.slice(commaIndex + 1) : data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,185 @@
+import { GradientStop, ThemePalette } from '../types.js';
+import { watchMediaQuery } from './utils.js';
+
+/**
+ * Built-in palettes
+ */
+const DARK_PALETTE: ThemePalette = {
+  color: '#2563eb',
+  gradientStops: [
+    { offset: 0, color: '#2563eb' },
+    { offset: 1, color: '#81e6d9' }
+  ],
+  strokeColor: '#ffffff',
+  debug: {
+    text: '#ffffff',
+    barBackground: '#333333',
+    barActive: '#2563eb',
+    barIdle: '#666666',
+    sensitivity: '#ff0000',
+    loud: '#ffaa00',
+    veryLoud: '#ff00ff'
+  }
+};
+
+const LIGHT_PALETTE: ThemePalette = {
+  color: '#2563eb',
+  gradientStops: [
+    { offset: 0, color: '#1d4ed8' },
+    { offset: 1, color: '#38b2ac' }
+  ],
+  strokeColor: '#1e293b',
+  debug: {
+    text: '#111827',
+    barBackground: '#e5e7eb',
+    barActive: '#2563eb',
+    barIdle: '#9ca3af',
+    sensitivity: '#dc2626',
+    loud: '#d97706',
+    veryLoud: '#c026d3'
+  }
+};
+
+const themeRegistry = new Map<string, ThemePalette>([
+  ['dark', DARK_PALETTE],
+  ['light', LIGHT_PALETTE]
+]);
+
+/**
+ * CSS custom properties read from the canvas element
+ */
+const CSS_VARIABLES = {
+  color: '--voice-orb-color',
+  strokeColor: '--voice-orb-stroke-color',
+  gradientStart: '--voice-orb-gradient-start',
+  gradientEnd: '--voice-orb-gradient-end',
+  debugText: '--voice-orb-debug-text'
+};
+
+/**
+ * Register a custom palette, or replace a built-in one
+ */
+export function registerTheme(name: string, palette: Partial<ThemePalette>): void {
+  if (name === 'auto') {
+    throw new Error('Theme name "auto" is reserved');
+  }
+  const base = themeRegistry.get(name) ?? DARK_PALETTE;
+  themeRegistry.set(name, {
+    ...base,
+    ...palette,
+    debug: { ...base.debug, ...palette.debug }
+  });
+}
+
+/**
+ * Look up a registered palette by name
+ */
+export function getTheme(name: string): ThemePalette | undefined {
+  return themeRegistry.get(name);
+}
+
+/**
+ * Resolves the active palette and follows system color scheme changes
+ */
+export class ThemeManager {
+  private canvas: HTMLCanvasElement;
+  private theme: string = 'auto';
+  private useCssVariables: boolean = true;
+  private palette: ThemePalette = DARK_PALETTE;
+  private prefersLight: boolean = false;
+  private unsubscribe: (() => void) | null = null;
+  private onChange?: (palette: ThemePalette) => void;
+
+  constructor(canvas: HTMLCanvasElement, onChange?: (palette: ThemePalette) => void) {
+    this.canvas = canvas;
+    this.onChange = onChange;
+
+    // Queried for light so environments without matchMedia default to dark
+    const watcher = watchMediaQuery('(prefers-color-scheme: light)', (matches) => {
+      this.prefersLight = matches;
+      if (this.theme === 'auto') {
+        this.refresh();
+      }
+    });
+    this.prefersLight = watcher.matches;
+    this.unsubscribe = watcher.unsubscribe;
+  }
+
+  /**
+   * Select the theme by name ('auto' follows prefers-color-scheme)
+   */
+  setTheme(theme: string, useCssVariables: boolean = this.useCssVariables): void {
+    this.theme = theme;
+    this.useCssVariables = useCssVariables;
+    this.refresh();
+  }
+
+  /**
+   * Get the name of the palette currently in effect
+   */
+  getResolvedName(): string {
+    if (this.theme !== 'auto') return this.theme;
+    return this.prefersLight ? 'light' : 'dark';
+  }
+
+  /**
+   * Re-resolve the palette (e.g. after CSS custom properties changed)
+   */
+  refresh(): void {
+    const name = this.getResolvedName();
+    const base = themeRegistry.get(name);
+    if (!base) {
+      console.warn(`Unknown theme "${name}", falling back to dark`);
+    }
+
+    this.palette = this.applyCssVariables(base ?? DARK_PALETTE);
+    this.onChange?.(this.palette);
+  }
+
+  /**
+   * Override palette colors with CSS custom properties set on the canvas
+   */
+  private applyCssVariables(base: ThemePalette): ThemePalette {
+    if (!this.useCssVariables || typeof getComputedStyle === 'undefined') {
+      return base;
+    }
+
+    const style = getComputedStyle(this.canvas);
+    const read = (name: string) => style.getPropertyValue(name).trim() || undefined;
+
+    const gradientStart = read(CSS_VARIABLES.gradientStart);
+    const gradientEnd = read(CSS_VARIABLES.gradientEnd);
+    let gradientStops: GradientStop[] = base.gradientStops;
+    if (gradientStart || gradientEnd) {
+      gradientStops = [
+        { offset: 0, color: gradientStart ?? base.gradientStops[0]?.color ?? base.color },
+        { offset: 1, color: gradientEnd ?? base.gradientStops[base.gradientStops.length - 1]?.color ?? base.color }
+      ];
+    }
+
+    return {
+      color: read(CSS_VARIABLES.color) ?? base.color,
+      gradientStops,
+      strokeColor: read(CSS_VARIABLES.strokeColor) ?? base.strokeColor,
+      debug: {
+        ...base.debug,
+        text: read(CSS_VARIABLES.debugText) ?? base.debug.text
+      }
+    };
+  }
+
+  /**
+   * Get the resolved palette
+   */
+  getPalette(): ThemePalette {
+    return this.palette;
+  }
+
+  /**
+   * Stop listening for color scheme changes
+   */
+  destroy(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+}
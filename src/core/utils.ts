@@ -23,6 +23,29 @@ export function lerp(start: number, end: number, factor: number): number {
   return start + (end - start) * factor;
 }
 
+/**
+ * Frame duration the original per-frame tuning was made at (60 Hz)
+ */
+export const REFERENCE_FRAME_MS = 1000 / 60;
+
+/**
+ * Frame-rate independent exponential smoothing toward a target.
+ * After `timeConstantMs` the remaining distance has shrunk to ~37%.
+ */
+export function damp(current: number, target: number, timeConstantMs: number, dtMs: number): number {
+  if (timeConstantMs <= 0) return target;
+  return target + (current - target) * Math.exp(-dtMs / timeConstantMs);
+}
+
+/**
+ * Convert a per-frame lerp factor tuned at 60 Hz into an equivalent time constant (ms)
+ */
+export function timeConstantFromFactor(factor: number): number {
+  if (factor >= 1) return 0;
+  if (factor <= 0) return Infinity;
+  return -REFERENCE_FRAME_MS / Math.log(1 - factor);
+}
+
 /**
  * Get canvas from element or selector
  */
@@ -40,6 +63,86 @@ export function getCanvas(canvasOrSelector: HTMLCanvasElement | string): HTMLCan
   return canvasOrSelector;
 }
 
+/**
+ * Subscribe to a media query, returning the current match state and an unsubscribe function
+ */
+export function watchMediaQuery(
+  query: string,
+  onChange: (matches: boolean) => void
+): { matches: boolean; unsubscribe: () => void } {
+  if (typeof window === 'undefined' || !window.matchMedia) {
+    return { matches: false, unsubscribe: () => {} };
+  }
+  
+  const mediaQuery = window.matchMedia(query);
+  const handler = (event: MediaQueryListEvent) => onChange(event.matches);
+  
+  if (mediaQuery.addEventListener) {
+    mediaQuery.addEventListener('change', handler);
+  } else {
+    // Safari < 14
+    mediaQuery.addListener(handler);
+  }
+  
+  return {
+    matches: mediaQuery.matches,
+    unsubscribe: () => {
+      if (mediaQuery.removeEventListener) {
+        mediaQuery.removeEventListener('change', handler);
+      } else {
+        mediaQuery.removeListener(handler);
+      }
+    }
+  };
+}
+
+/**
+ * 2D context of an on-screen canvas or an OffscreenCanvas in a worker
+ */
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Rotate the hue of any CSS color. The canvas context normalizes the color
+ * to `#rrggbb` or `rgba(...)` first, so named and hsl() colors work too.
+ */
+export function rotateHue(ctx: RenderContext, color: string, degrees: number): string {
+  const previous = ctx.fillStyle;
+  ctx.fillStyle = color;
+  const normalized = String(ctx.fillStyle);
+  ctx.fillStyle = previous;
+
+  let r: number, g: number, b: number, a = 1;
+  if (normalized.startsWith('#')) {
+    r = parseInt(normalized.slice(1, 3), 16);
+    g = parseInt(normalized.slice(3, 5), 16);
+    b = parseInt(normalized.slice(5, 7), 16);
+  } else {
+    const parts = normalized.slice(normalized.indexOf('(') + 1, -1).split(',').map(Number);
+    if (parts.length < 3 || parts.some(isNaN)) return color;
+    [r, g, b] = parts;
+    a = parts[3] ?? 1;
+  }
+
+  // RGB to HSL
+  r /= 255; g /= 255; b /= 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  let hue = 0;
+  let saturation = 0;
+  if (delta > 0) {
+    saturation = delta / (1 - Math.abs(2 * lightness - 1));
+    if (max === r) hue = ((g - b) / delta) % 6;
+    else if (max === g) hue = (b - r) / delta + 2;
+    else hue = (r - g) / delta + 4;
+    hue *= 60;
+  }
+
+  hue = (((hue + degrees) % 360) + 360) % 360;
+  return `hsla(${hue.toFixed(1)}, ${(saturation * 100).toFixed(1)}%, ${(lightness * 100).toFixed(1)}%, ${a})`;
+}
+
 /**
  * Check if browser supports required features
  */
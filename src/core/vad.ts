@@ -0,0 +1,153 @@
+/**
+ * Voice activity detection settings
+ */
+export interface VadConfig {
+  enabled: boolean;
+  // Multipliers of the dynamic sensitivity threshold
+  onRatio: number;
+  offRatio: number;
+  hangoverMs: number;
+  minSpeechMs: number;
+  // Frames flatter than this are treated as noise (undefined disables the check)
+  maxSpectralFlatness?: number;
+}
+
+type VadState = 'silence' | 'onset' | 'speech' | 'hangover';
+
+/**
+ * Hysteresis-based speech detector with hangover and minimum speech duration
+ */
+export class VoiceActivityDetector {
+  private config: VadConfig;
+  private state: VadState = 'silence';
+  private onsetTime: number = 0;
+  private speechStartTime: number = 0;
+  private lastVoicedTime: number = 0;
+  private onSpeechStart?: (timestamp: number) => void;
+  private onSpeechEnd?: (timestamp: number, duration: number) => void;
+
+  constructor(
+    config: VadConfig,
+    callbacks: {
+      onSpeechStart?: (timestamp: number) => void;
+      onSpeechEnd?: (timestamp: number, duration: number) => void;
+    } = {}
+  ) {
+    this.config = { ...config };
+    this.onSpeechStart = callbacks.onSpeechStart;
+    this.onSpeechEnd = callbacks.onSpeechEnd;
+  }
+
+  /**
+   * Update detector settings
+   */
+  configure(config: Partial<VadConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (!this.config.enabled) {
+      this.reset();
+    }
+  }
+
+  /**
+   * Whether the spectral flatness check is active
+   */
+  usesSpectralFlatness(): boolean {
+    return this.config.enabled && this.config.maxSpectralFlatness !== undefined;
+  }
+
+  /**
+   * Feed one analysis frame
+   */
+  process(volume: number, sensitivityThreshold: number, timestamp: number, spectralFlatness?: number): void {
+    if (!this.config.enabled) return;
+
+    const isNoiseLike = this.config.maxSpectralFlatness !== undefined &&
+      spectralFlatness !== undefined &&
+      spectralFlatness > this.config.maxSpectralFlatness;
+    const aboveOn = !isNoiseLike && volume > sensitivityThreshold * this.config.onRatio;
+    const aboveOff = !isNoiseLike && volume > sensitivityThreshold * this.config.offRatio;
+
+    switch (this.state) {
+      case 'silence':
+        if (aboveOn) {
+          this.state = 'onset';
+          this.onsetTime = timestamp;
+          this.lastVoicedTime = timestamp;
+        }
+        break;
+
+      case 'onset':
+        if (!aboveOff) {
+          // Too short to count as speech
+          this.state = 'silence';
+        } else {
+          this.lastVoicedTime = timestamp;
+          if (timestamp - this.onsetTime >= this.config.minSpeechMs) {
+            this.state = 'speech';
+            this.speechStartTime = this.onsetTime;
+            this.onSpeechStart?.(this.speechStartTime);
+          }
+        }
+        break;
+
+      case 'speech':
+        if (aboveOff) {
+          this.lastVoicedTime = timestamp;
+        } else {
+          this.state = 'hangover';
+        }
+        break;
+
+      case 'hangover':
+        if (aboveOff) {
+          this.state = 'speech';
+          this.lastVoicedTime = timestamp;
+        } else if (timestamp - this.lastVoicedTime >= this.config.hangoverMs) {
+          this.state = 'silence';
+          this.onSpeechEnd?.(this.lastVoicedTime, this.lastVoicedTime - this.speechStartTime);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Whether speech is currently detected (including hangover)
+   */
+  isSpeaking(): boolean {
+    return this.state === 'speech' || this.state === 'hangover';
+  }
+
+  /**
+   * Return to silence, ending any speech in progress
+   */
+  reset(timestamp: number = performance.now()): void {
+    if (this.isSpeaking()) {
+      this.onSpeechEnd?.(timestamp, timestamp - this.speechStartTime);
+    }
+    this.state = 'silence';
+  }
+}
+
+/**
+ * Spectral flatness (0 = tonal, 1 = white noise) of byte frequency data
+ */
+export function computeSpectralFlatness(frequencyData: Uint8Array, minDecibels: number, maxDecibels: number): number {
+  const range = maxDecibels - minDecibels;
+  let logSum = 0;
+  let linearSum = 0;
+  let count = 0;
+
+  // Skip the DC bin
+  for (let i = 1; i < frequencyData.length; i++) {
+    const db = minDecibels + (frequencyData[i] / 255) * range;
+    const power = Math.pow(10, db / 10);
+    logSum += Math.log(power);
+    linearSum += power;
+    count++;
+  }
+
+  if (count === 0 || linearSum === 0) return 1;
+  const geometricMean = Math.exp(logSum / count);
+  const arithmeticMean = linearSum / count;
+  return geometricMean / arithmeticMean;
+}
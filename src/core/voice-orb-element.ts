@@ -0,0 +1,232 @@
+import { VoiceOrbOptions } from '../types.js';
+import { VoiceOrb } from './VoiceOrb.js';
+import { SCALAR_OPTIONS, ORB_EVENTS } from './bindings.js';
+
+/**
+ * Audio mode started by the element's start()
+ */
+export type VoiceOrbElementMode = 'microphone' | 'assistant' | 'duplex' | 'test' | 'external';
+
+// Each primitive option is an attribute with its name kebab-cased
+const ATTRIBUTE_TO_OPTION = new Map<string, keyof VoiceOrbOptions>(
+  (Object.keys(SCALAR_OPTIONS) as (keyof VoiceOrbOptions)[]).map(option => [
+    option.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`),
+    option
+  ])
+);
+
+const STYLES = `
+  :host { display: inline-block; width: 200px; height: 200px; }
+  :host([hidden]) { display: none; }
+  canvas { display: block; width: 100%; height: 100%; }
+`;
+
+// Lets the module load where HTMLElement doesn't exist (server rendering)
+const HTMLElementBase = (typeof HTMLElement !== 'undefined' ? HTMLElement : class {}) as typeof HTMLElement;
+
+/**
+ * `<voice-orb>` custom element wrapping a VoiceOrb in shadow DOM.
+ *
+ * Attributes map onto VoiceOrbOptions by kebab-casing the option name
+ * (`color`, `radius`, `theme`, `point-count`, `debug`, ...) and update the orb live.
+ * `mode` picks what start() begins and `autostart` starts it once connected.
+ * Orb events are re-dispatched as bubbling CustomEvents with the payload in `detail`.
+ */
+export class VoiceOrbElement extends HTMLElementBase {
+  private canvas: HTMLCanvasElement;
+  private instance: VoiceOrb | null = null;
+  private unsubscribers: (() => void)[] = [];
+  // Whether the last request was start() rather than stop()
+  private active: boolean = false;
+  // start() and stop() run one after another; a newer call supersedes older ones
+  private pending: Promise<void> = Promise.resolve();
+  private generation: number = 0;
+
+  static get observedAttributes(): string[] {
+    return ['mode', 'autostart', ...ATTRIBUTE_TO_OPTION.keys()];
+  }
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = STYLES;
+    this.canvas = document.createElement('canvas');
+    this.canvas.setAttribute('part', 'canvas');
+    shadow.append(style, this.canvas);
+  }
+
+  /**
+   * The wrapped orb while connected, for the full VoiceOrb API
+   */
+  get orb(): VoiceOrb | null {
+    return this.instance;
+  }
+
+  get mode(): VoiceOrbElementMode {
+    const mode = this.getAttribute('mode');
+    return mode === 'assistant' || mode === 'duplex' || mode === 'test' || mode === 'external' ? mode : 'microphone';
+  }
+
+  set mode(mode: VoiceOrbElementMode) {
+    this.setAttribute('mode', mode);
+  }
+
+  connectedCallback(): void {
+    if (this.instance) return;
+
+    this.instance = new VoiceOrb(this.canvas, this.readOptions());
+    for (const event of ORB_EVENTS) {
+      this.unsubscribers.push(this.instance.on(event, (detail) => {
+        this.dispatchEvent(new CustomEvent(event, { detail, bubbles: true, composed: true }));
+      }));
+    }
+
+    if (this.hasAttribute('autostart')) {
+      // Failures are reported through the 'error' event
+      this.start().catch(() => {});
+    }
+  }
+
+  disconnectedCallback(): void {
+    const orb = this.instance;
+    if (!orb) return;
+
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.instance = null;
+    this.active = false;
+    this.generation++;
+    void orb.destroy();
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+    if (!this.instance || oldValue === newValue) return;
+
+    if (name === 'mode') {
+      // Restart in the new mode if running or starting
+      if (this.active) {
+        this.start().catch(() => {});
+      }
+      return;
+    }
+
+    const option = ATTRIBUTE_TO_OPTION.get(name);
+    if (option) {
+      this.instance.setOptions({ [option]: this.parseOption(option, newValue) });
+    }
+  }
+
+  /**
+   * Start the orb in the current `mode`, stopping any previous mode first
+   */
+  async start(): Promise<void> {
+    const orb = this.instance;
+    if (!orb) {
+      throw new Error('<voice-orb> must be connected to the document before starting');
+    }
+
+    this.active = true;
+    const generation = ++this.generation;
+    await this.enqueue(async () => {
+      if (generation !== this.generation) return;
+      try {
+        await this.startMode(orb);
+      } catch (error) {
+        if (generation === this.generation) {
+          this.active = false;
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Stop audio processing; the orb keeps idling until started again
+   */
+  async stop(): Promise<void> {
+    const orb = this.instance;
+    this.active = false;
+    this.generation++;
+    await this.enqueue(async () => {
+      await orb?.stop();
+    });
+  }
+
+  /**
+   * Run after the previous start() or stop() has settled
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.pending.catch(() => {}).then(task);
+    this.pending = run;
+    return run;
+  }
+
+  /**
+   * Start the orb in the mode the attribute names now
+   */
+  private async startMode(orb: VoiceOrb): Promise<void> {
+    if (orb.getMode() !== 'stopped') {
+      await orb.stop();
+    }
+
+    switch (this.mode) {
+      case 'assistant':
+        await orb.startAssistant();
+        break;
+      case 'duplex':
+        await orb.startDuplex();
+        break;
+      case 'test':
+        orb.startTest();
+        break;
+      case 'external':
+        await orb.startExternal();
+        break;
+      default:
+        await orb.startMicrophone();
+    }
+  }
+
+  /**
+   * Options from the current attributes
+   */
+  private readOptions(): VoiceOrbOptions {
+    const options: Record<string, unknown> = {};
+    for (const [attribute, option] of ATTRIBUTE_TO_OPTION) {
+      if (this.hasAttribute(attribute)) {
+        options[option] = this.parseOption(option, this.getAttribute(attribute));
+      }
+    }
+    return options as VoiceOrbOptions;
+  }
+
+  /**
+   * Convert an attribute value to an option value; a removed or invalid attribute restores the default
+   */
+  private parseOption(option: keyof VoiceOrbOptions, value: string | null): unknown {
+    const fallback = VoiceOrb.getDefaultOptions()[option];
+    if (value === null) return fallback;
+
+    switch (SCALAR_OPTIONS[option]) {
+      case 'number': {
+        const parsed = parseFloat(value);
+        return isNaN(parsed) ? fallback : parsed;
+      }
+      case 'boolean':
+        return value !== 'false';
+      case 'boolean-or-auto':
+        return value === 'auto' ? 'auto' : value !== 'false';
+      default:
+        return value;
+    }
+  }
+}
+
+/**
+ * Register the `<voice-orb>` element (or a custom tag name). Safe to call more than once.
+ */
+export function defineVoiceOrbElement(tagName: string = 'voice-orb'): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+  customElements.define(tagName, VoiceOrbElement);
+}
@@ -0,0 +1,10 @@
+/**
+ * Voice Orb Visualizer - `<voice-orb>` custom element, registered on import
+ */
+
+import { defineVoiceOrbElement } from './index.js';
+
+export { VoiceOrbElement, defineVoiceOrbElement } from './index.js';
+export type { VoiceOrbElementMode } from './index.js';
+
+defineVoiceOrbElement();
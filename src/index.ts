@@ -3,12 +3,39 @@
  */
 
 export { VoiceOrb } from './core/VoiceOrb.js';
+export { VoiceOrbGroup } from './core/orb-group.js';
+export type { VoiceOrbGroupEvents } from './core/orb-group.js';
+export { VoiceOrbElement, defineVoiceOrbElement } from './core/voice-orb-element.js';
+export type { VoiceOrbElementMode } from './core/voice-orb-element.js';
 export type { 
   VoiceOrbOptions, 
   AudioMode, 
+  ConversationState,
   CalibrationData,
+  PcmFormat,
+  PlaybackController,
+  ReplayController,
+  ReplayOptions,
+  OrbRecording,
+  MicrophoneConstraints,
+  MicrophoneChangeReason,
+  ExternalAudioSource,
+  AttachSourceOptions,
   InternalForce,
   NoisePoint,
-  BlobPoint
+  BlobPoint,
+  GradientStop,
+  ThemePalette,
+  VolumeModel,
+  LoudnessReading,
+  PitchReading,
+  VolumeTier,
+  VolumeFrame,
+  VoiceOrbEvents,
+  VoiceOrbGroupOptions,
+  OrbLayout,
+  OrbPosition
 } from './types.js';
-export { checkBrowserSupport } from './core/utils.js';
\ No newline at end of file
+export { encodeRecording, decodeRecording } from './core/recording.js';
+export { checkBrowserSupport } from './core/utils.js';
+export { registerTheme, getTheme } from './core/themes.js';
\ No newline at end of file
@@ -0,0 +1,121 @@
+/**
+ * Voice Orb Visualizer - React bindings
+ */
+
+import {
+  createElement,
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+  CSSProperties,
+  RefObject
+} from 'react';
+import { VoiceOrb as VoiceOrbCore, VoiceOrbOptions, VoiceOrbEvents } from './index.js';
+import { diffOptions } from './core/bindings.js';
+
+/**
+ * Handlers keyed by orb event name
+ */
+export type VoiceOrbEventHandlers = {
+  [K in keyof VoiceOrbEvents]?: (payload: VoiceOrbEvents[K]) => void;
+};
+
+export interface UseVoiceOrbResult {
+  // Attach to the <canvas> the orb draws into
+  canvasRef: RefObject<HTMLCanvasElement>;
+  // The orb once mounted, null before mount and during server rendering
+  orb: VoiceOrbCore | null;
+}
+
+/**
+ * Create a VoiceOrb for a canvas and keep it in sync with `options`.
+ *
+ * The orb is created in an effect and destroyed in its cleanup, so StrictMode's
+ * mount/unmount/mount leaves exactly one orb, one render loop and one AudioContext.
+ * Changed options are applied with setOptions(); handlers always see the latest props.
+ */
+export function useVoiceOrb(options: VoiceOrbOptions = {}, handlers: VoiceOrbEventHandlers = {}): UseVoiceOrbResult {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [orb, setOrb] = useState<VoiceOrbCore | null>(null);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  // Options the current orb was last given
+  const appliedRef = useRef<VoiceOrbOptions>({});
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const instance = new VoiceOrbCore(canvas, optionsRef.current);
+    appliedRef.current = optionsRef.current;
+    setOrb(instance);
+
+    return () => {
+      setOrb(null);
+      void instance.destroy();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!orb) return;
+    const changes = diffOptions(appliedRef.current, options, VoiceOrbCore.getDefaultOptions());
+    appliedRef.current = options;
+    if (changes) {
+      orb.setOptions(changes);
+    }
+  });
+
+  // Resubscribe only when the set of handled events changes
+  const eventNames = Object.keys(handlers).sort().join(',');
+  useEffect(() => {
+    if (!orb || !eventNames) return;
+    const unsubscribers = (eventNames.split(',') as (keyof VoiceOrbEvents)[]).map(event =>
+      orb.on(event, (payload: unknown) => {
+        (handlersRef.current[event] as ((payload: unknown) => void) | undefined)?.(payload);
+      })
+    );
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [orb, eventNames]);
+
+  return { canvasRef, orb };
+}
+
+export interface VoiceOrbProps extends VoiceOrbOptions {
+  // Orb event handlers, e.g. { speechstart: () => ... }
+  on?: VoiceOrbEventHandlers;
+  // Called with the orb after mount and with null before unmount
+  onReady?: (orb: VoiceOrbCore | null) => void;
+  className?: string;
+  style?: CSSProperties;
+}
+
+/**
+ * Canvas rendering a VoiceOrb. The ref receives the orb instance.
+ */
+export const VoiceOrb = forwardRef<VoiceOrbCore | null, VoiceOrbProps>(function VoiceOrb(props, ref) {
+  const { on, onReady, className, style, ...options } = props;
+  const { canvasRef, orb } = useVoiceOrb(options, on);
+
+  useImperativeHandle<VoiceOrbCore | null, VoiceOrbCore | null>(ref, () => orb, [orb]);
+
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+  useEffect(() => {
+    if (!orb) return;
+    onReadyRef.current?.(orb);
+    return () => onReadyRef.current?.(null);
+  }, [orb]);
+
+  return createElement('canvas', {
+    ref: canvasRef,
+    className,
+    style: { display: 'block', width: 200, height: 200, ...style }
+  });
+});
+
+export type { VoiceOrbOptions, VoiceOrbEvents } from './index.js';
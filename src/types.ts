@@ -6,7 +6,11 @@ export interface VoiceOrbOptions {
   // Visual
   color?: string;
   fillMode?: 'solid' | 'gradient';
-  gradientStops?: Array<{ offset: number; color: string }>;
+  gradientStops?: GradientStop[];
+  gradientType?: 'radial' | 'linear' | 'conic';
+  gradientAngle?: number;
+  gradientVolumeShift?: 'none' | 'stops' | 'center';
+  gradientShiftAmount?: number;
   strokeWidth?: number;
   strokeColor?: string;
   opacity?: number;
@@ -15,14 +19,65 @@ export interface VoiceOrbOptions {
   mode?: 'microphone' | 'assistant' | 'test';
   fftSize?: 256 | 512 | 1024;
   smoothingTimeConstant?: number;
+  // Analyse on the audio thread with an AudioWorklet, polling the analyser where unavailable
+  analysisWorklet?: boolean;
+  // Samples between audio-thread analysis frames
+  analysisHopSize?: number;
   autoCalibration?: boolean;
   baselineNoise?: number;
   sensitivity?: number;
   loudThreshold?: number;
   veryLoudThreshold?: number;
   adaptiveGain?: number;
+  volumeSmoothingMs?: number;
+  volumeModel?: VolumeModel;
+  loudnessAttackMs?: number;
+  loudnessReleaseMs?: number;
+  loudnessFloorDb?: number;
+  loudnessCeilingDb?: number;
+  /** @deprecated Per-frame factor at 60 Hz; use volumeSmoothingMs */
   volumeLerpFactor?: number;
   
+  // Calibration
+  calibrationDurationMs?: number;
+  calibrationBaselinePercentile?: number;
+  calibrationRangePercentile?: number;
+  calibrationProfile?: CalibrationData;
+  
+  // Noise Tracking
+  noiseTracking?: boolean;
+  noiseWindowMs?: number;
+  noiseAdaptRate?: number;
+  noiseShiftRatio?: number;
+  
+  // Audio Graph
+  audioContext?: AudioContext;
+  
+  // Microphone
+  deviceId?: string;
+  echoCancellation?: boolean;
+  noiseSuppression?: boolean;
+  autoGainControl?: boolean;
+  
+  // Streaming
+  jitterBufferMs?: number;
+  
+  // External Volume
+  externalTimeoutMs?: number;
+  externalDelayMs?: number;
+  
+  // Full Duplex
+  duplexUserColor?: string;
+  echoSuppression?: boolean;
+  
+  // Voice Activity Detection
+  vadEnabled?: boolean;
+  vadOnRatio?: number;
+  vadOffRatio?: number;
+  vadHangoverMs?: number;
+  vadMinSpeechMs?: number;
+  vadMaxSpectralFlatness?: number;
+  
   // Motion & Shape
   pointCount?: number;
   noiseIntensity?: number;
@@ -33,14 +88,43 @@ export interface VoiceOrbOptions {
   maxOffset?: number;
   fadeInMs?: number;
   fadeOutMs?: number;
+  stateTransitionMs?: number;
+  errorColor?: string;
+  
+  // Pitch
+  pitchTracking?: boolean;
+  pitchMinHz?: number;
+  pitchMaxHz?: number;
+  pitchSmoothingMs?: number;
+  pitchHueShift?: number;
+  pitchDrift?: number;
+  pitchSpawnAngle?: boolean;
+  
+  // Spectral Deformation
+  deformation?: 'waves' | 'spectral';
+  bandCount?: number;
+  minFrequency?: number;
+  maxFrequency?: number;
+  bandAttackMs?: number;
+  bandReleaseMs?: number;
+  spectralIntensity?: number;
+  spectralMirror?: boolean;
   
   // Performance
   fpsLimit?: number;
+  pauseWhenHidden?: boolean;
+  adaptiveQuality?: boolean;
+  frameBudgetMs?: number;
+  // Draw in a Web Worker via OffscreenCanvas (read at construction)
+  offscreen?: boolean;
+  workerUrl?: string | URL;
   debug?: boolean;
   
   // Accessibility
-  theme?: 'light' | 'dark' | 'auto';
-  reducedMotion?: boolean;
+  theme?: 'light' | 'dark' | 'auto' | (string & {});
+  useCssVariables?: boolean;
+  reducedMotion?: boolean | 'auto';
+  reducedMotionStyle?: 'pulse' | 'ring';
   ariaLabel?: string;
   
   // Callbacks
@@ -50,12 +134,32 @@ export interface VoiceOrbOptions {
   onModeChange?: (mode: string) => void;
 }
 
+export interface GradientStop {
+  offset: number;
+  color: string;
+}
+
+export interface ThemePalette {
+  color: string;
+  gradientStops: GradientStop[];
+  strokeColor: string;
+  debug: {
+    text: string;
+    barBackground: string;
+    barActive: string;
+    barIdle: string;
+    sensitivity: string;
+    loud: string;
+    veryLoud: string;
+  };
+}
+
 export interface InternalForce {
   angle: number;
   strength: number;
   life: number;
-  decay: number;
-  speed: number;
+  decay: number; // life lost per second
+  speed: number; // distance travelled per second
   distance: number;
   maxDistance: number;
 }
@@ -72,7 +176,62 @@ export interface BlobPoint {
   y: number;
 }
 
-export type AudioMode = 'microphone' | 'assistant' | 'test' | 'stopped';
+export type AudioMode = 'microphone' | 'assistant' | 'duplex' | 'test' | 'replay' | 'external' | 'stopped';
+
+export type ConversationState = 'idle' | 'listening' | 'thinking' | 'speaking' | 'error';
+
+export interface PcmFormat {
+  encoding: 'pcm16' | 'float32';
+  sampleRate: number;
+  channels?: number;
+}
+
+export interface MicrophoneConstraints {
+  deviceId?: string;
+  echoCancellation?: boolean;
+  noiseSuppression?: boolean;
+  autoGainControl?: boolean;
+}
+
+export type MicrophoneChangeReason = 'switched' | 'ended' | 'removed';
+
+export type ExternalAudioSource = MediaStream | MediaStreamTrack | AudioNode;
+
+export interface AttachSourceOptions {
+  // Analyse as user speech (calibration + VAD) or as assistant playback
+  as?: 'microphone' | 'assistant';
+  // Also route the source to the context destination
+  monitor?: boolean;
+}
+
+export interface PlaybackController {
+  interrupt(fadeMs?: number): void;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  isPaused(): boolean;
+  getQueueDepth(): number;
+  getBufferedDuration(): number;
+}
+
+export interface ReplayController {
+  play(): void;
+  pause(): void;
+  isPaused(): boolean;
+  // Jump to a position in ms from the start of the recording
+  seek(positionMs: number): void;
+  getPosition(): number;
+  getDuration(): number;
+  // Playback rate, 1 for real time
+  setSpeed(speed: number): void;
+  setLoop(loop: boolean): void;
+}
+
+export interface ReplayOptions {
+  loop?: boolean;
+  speed?: number;
+  startAt?: number;
+  paused?: boolean;
+}
 
 export interface CalibrationData {
   baseline: number;
@@ -80,4 +239,111 @@ export interface CalibrationData {
   sensitivity: number;
   loudThreshold: number;
   veryLoudThreshold: number;
-}
\ No newline at end of file
+  // Per-band noise floors for spectral deformation
+  bandFloors?: number[];
+}
+
+export type VolumeModel = 'spectral' | 'rms' | 'peak' | 'a-weighted' | 'k-weighted';
+
+export interface LoudnessReading {
+  // Linear amplitude (0-1)
+  rms: number;
+  peak: number;
+  // Levels in dBFS
+  rmsDb: number;
+  peakDb: number;
+  aWeightedDb: number;
+  kWeightedDb: number;
+}
+
+export interface PitchReading {
+  // Fundamental frequency in Hz (0 when nothing was detected)
+  frequency: number;
+  // 0-1, how periodic the signal is at that frequency
+  confidence: number;
+  voiced: boolean;
+}
+
+export type VolumeTier = 'quiet' | 'active' | 'loud' | 'veryLoud';
+
+/**
+ * A captured session. Frames are stored as parallel columns; thresholds, modes and
+ * states only when they change. All times are ms from the start of the recording.
+ */
+export interface OrbRecording {
+  version: 1;
+  // Wall-clock start (ms since the epoch)
+  startedAt: number;
+  duration: number;
+  frames: {
+    time: number[];
+    // Raw volume (0-1) before smoothing and fading
+    volume: number[];
+    // Microphone share of the combined level (0-1) in duplex mode, otherwise 0
+    userShare: number[];
+  };
+  thresholds: { time: number; value: CalibrationData }[];
+  modes: { time: number; mode: AudioMode }[];
+  states: { time: number; state: ConversationState }[];
+}
+
+export interface VolumeFrame {
+  raw: number;
+  smoothed: number;
+  effective: number;
+  tier: VolumeTier;
+  timestamp: number;
+}
+
+export type OrbLayout = 'row' | 'grid' | 'circle' | 'manual';
+
+export interface VoiceOrbGroupOptions {
+  layout?: OrbLayout;
+  padding?: number;
+  // Shared by every orb in the group; created (and closed) by the group if omitted
+  audioContext?: AudioContext;
+  
+  // Dominant speaker
+  highlightDominant?: boolean;
+  highlightScale?: number;
+  dimOpacity?: number;
+  dominantHoldMs?: number;
+  highlightTransitionMs?: number;
+  
+  // Performance
+  fpsLimit?: number;
+  pauseWhenHidden?: boolean;
+  adaptiveQuality?: boolean;
+  frameBudgetMs?: number;
+  
+  // Accessibility
+  ariaLabel?: string;
+}
+
+export interface OrbPosition {
+  x: number;
+  y: number;
+}
+
+export interface VoiceOrbEvents {
+  volume: VolumeFrame;
+  calibrationstart: { timestamp: number };
+  calibrationprogress: { progress: number; samplesCount: number };
+  calibrationcomplete: CalibrationData;
+  noisefloorchange: { baseline: number; previousBaseline: number; timestamp: number };
+  modechange: { mode: AudioMode; previousMode: AudioMode };
+  statechange: { state: ConversationState; previousState: ConversationState };
+  tierchange: { tier: VolumeTier; previousTier: VolumeTier; volume: number };
+  speechstart: { timestamp: number };
+  speechend: { timestamp: number; duration: number };
+  bargein: { timestamp: number; assistantVolume: number };
+  underrun: { timestamp: number; gapMs: number };
+  microphonechange: { deviceId: string | null; label: string; reason: MicrophoneChangeReason };
+  playbackstart: { timestamp: number };
+  chunkend: { timestamp: number; queueDepth: number };
+  queuedrained: { timestamp: number };
+  interrupted: { timestamp: number; discardedMs: number };
+  playbackend: { timestamp: number };
+  replayend: { duration: number };
+  error: Error;
+}
@@ -0,0 +1,118 @@
+/**
+ * Voice Orb Visualizer - Vue bindings
+ */
+
+import {
+  defineComponent,
+  h,
+  onBeforeUnmount,
+  onMounted,
+  ref,
+  shallowRef,
+  toValue,
+  watch,
+  MaybeRefOrGetter,
+  PropType,
+  Ref,
+  ShallowRef
+} from 'vue';
+import { VoiceOrb as VoiceOrbCore, VoiceOrbOptions } from './index.js';
+import { SCALAR_OPTIONS, ORB_EVENTS, OptionKind, diffOptions } from './core/bindings.js';
+
+/**
+ * Create a VoiceOrb for a canvas once mounted and keep it in sync with `options`.
+ *
+ * The orb is held in a shallowRef (a reactive proxy would break its private state),
+ * destroyed before unmount and never created during server rendering.
+ */
+export function useVoiceOrb(
+  canvas: Ref<HTMLCanvasElement | null>,
+  options: MaybeRefOrGetter<VoiceOrbOptions> = {}
+): { orb: ShallowRef<VoiceOrbCore | null> } {
+  const orb = shallowRef<VoiceOrbCore | null>(null);
+  // Options the orb was last given
+  let applied: VoiceOrbOptions = {};
+
+  onMounted(() => {
+    if (!canvas.value) return;
+    applied = { ...toValue(options) };
+    orb.value = new VoiceOrbCore(canvas.value, applied);
+  });
+
+  watch(() => ({ ...toValue(options) }), (next) => {
+    if (!orb.value) return;
+    const changes = diffOptions(applied, next, VoiceOrbCore.getDefaultOptions());
+    applied = next;
+    if (changes) {
+      orb.value.setOptions(changes);
+    }
+  });
+
+  onBeforeUnmount(() => {
+    const instance = orb.value;
+    orb.value = null;
+    void instance?.destroy();
+  });
+
+  return { orb };
+}
+
+const PROP_TYPES: Record<OptionKind, object> = {
+  'string': { type: String },
+  'number': { type: Number },
+  // Unset booleans must stay undefined rather than Vue's implicit false
+  'boolean': { type: Boolean, default: undefined },
+  'boolean-or-auto': { type: [Boolean, String], default: undefined }
+};
+
+const SCALAR_PROPS: Record<string, object> = {};
+for (const [option, kind] of Object.entries(SCALAR_OPTIONS)) {
+  SCALAR_PROPS[option] = PROP_TYPES[kind as OptionKind];
+}
+
+// Covered by emits; as props they would take `@volume` etc. and fire twice
+type CallbackOption = 'onCalibrated' | 'onVolume' | 'onError' | 'onModeChange';
+
+const OPTION_PROPS = {
+  ...SCALAR_PROPS,
+  gradientStops: { type: Array },
+  calibrationProfile: { type: Object },
+  // Any type: AudioContext instances fail Vue's Object check
+  audioContext: { type: null }
+} as unknown as { [K in Exclude<keyof VoiceOrbOptions, CallbackOption>]-?: PropType<VoiceOrbOptions[K]> };
+
+/**
+ * Canvas rendering a VoiceOrb. Props map onto VoiceOrbOptions, orb events are
+ * emitted under their own names and the instance is exposed as `orb`.
+ */
+export const VoiceOrb = defineComponent({
+  name: 'VoiceOrb',
+  props: OPTION_PROPS,
+  emits: ORB_EVENTS,
+  setup(props, { emit, expose }) {
+    const canvas = ref<HTMLCanvasElement | null>(null);
+    const { orb } = useVoiceOrb(canvas, () => {
+      // Only options that were actually passed
+      const options: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(props)) {
+        if (value !== undefined) options[key] = value;
+      }
+      return options as VoiceOrbOptions;
+    });
+
+    watch(orb, (instance, _previous, onCleanup) => {
+      if (!instance) return;
+      const unsubscribers = ORB_EVENTS.map(event => instance.on(event, (payload) => emit(event, payload)));
+      onCleanup(() => unsubscribers.forEach(unsubscribe => unsubscribe()));
+    });
+
+    expose({ orb });
+
+    return () => h('canvas', {
+      ref: canvas,
+      style: { display: 'block', width: '200px', height: '200px' }
+    });
+  }
+});
+
+export type { VoiceOrbOptions, VoiceOrbEvents } from './index.js';
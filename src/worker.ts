@@ -0,0 +1,68 @@
+/**
+ * Voice Orb Visualizer - render worker used by the `offscreen` option
+ */
+
+import { OrbRenderer } from './core/renderer.js';
+import { RenderWorkerRequest, RenderWorkerResponse } from './core/offscreen.js';
+
+let renderer: OrbRenderer | null = null;
+// Kept across orbs: the transferred canvas can't be sent again
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+function respond(message: RenderWorkerResponse): void {
+  self.postMessage(message);
+}
+
+self.addEventListener('message', (event: MessageEvent<RenderWorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'init') {
+    if (message.canvas) {
+      ctx = message.canvas.getContext('2d');
+    }
+    if (!ctx) {
+      throw new Error('Failed to get 2D context from OffscreenCanvas');
+    }
+    renderer = new OrbRenderer(ctx, message.options, message.palette);
+    return;
+  }
+  if (message.type === 'release') {
+    renderer?.clear();
+    renderer = null;
+    return;
+  }
+  if (!renderer) return;
+
+  switch (message.type) {
+    case 'configure':
+      renderer.configure(message.options);
+      break;
+    case 'palette':
+      renderer.setPalette(message.palette);
+      break;
+    case 'resize':
+      renderer.resize(message.width, message.height, message.dpr);
+      break;
+    case 'place':
+      renderer.placeAt(message.x, message.y, message.snap);
+      break;
+    case 'emphasis':
+      renderer.setEmphasis(message.scale, message.opacity);
+      break;
+    case 'reset':
+      renderer.reset();
+      break;
+    case 'frame': {
+      const start = performance.now();
+      if (message.clear) {
+        renderer.clear();
+      }
+      renderer.render(message.frame);
+      respond({ type: 'rendered', costMs: performance.now() - start });
+      break;
+    }
+  }
+});
+
+// Lets the page know the script loaded before it hands over the canvas
+respond({ type: 'ready' });
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioPipeline } from '../src/core/audio-pipeline.js';
+
+const SAMPLE_RATE = 16000;
+
+// Just enough of a Web Audio graph to schedule, stop and inspect buffer sources
+class FakeSource {
+  buffer: { duration: number } | null = null;
+  onended: (() => void) | null = null;
+  started: number | null = null;
+  stopped = false;
+  connect() {}
+  disconnect() {}
+  start(when: number) {
+    this.started = when;
+  }
+  stop() {
+    this.stopped = true;
+  }
+}
+
+class FakeContext {
+  currentTime = 0;
+  sampleRate = SAMPLE_RATE;
+  state = 'running';
+  destination = {};
+  sources: FakeSource[] = [];
+  async resume() {}
+  async suspend() {}
+  async close() {
+    this.state = 'closed';
+  }
+  createAnalyser() {
+    return { fftSize: 2048, smoothingTimeConstant: 0.8, frequencyBinCount: 1024, connect() {}, disconnect() {} };
+  }
+  createGain() {
+    const param = { value: 1, cancelScheduledValues() {}, setValueAtTime() {}, linearRampToValueAtTime() {} };
+    return { gain: param, connect() {}, disconnect() {} };
+  }
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    const data = Array.from({ length: channels }, () => new Float32Array(length));
+    return { duration: length / sampleRate, numberOfChannels: channels, getChannelData: (c: number) => data[c] };
+  }
+  createBufferSource() {
+    const source = new FakeSource();
+    this.sources.push(source);
+    return source;
+  }
+}
+
+const format = { encoding: 'float32' as const, sampleRate: SAMPLE_RATE };
+// 100 ms of audio
+const chunk = () => new Float32Array(SAMPLE_RATE / 10).fill(0.1);
+
+describe('AudioPipeline playback pause', () => {
+  let context: FakeContext;
+
+  beforeEach(() => {
+    context = new FakeContext();
+    vi.stubGlobal('window', { AudioContext: vi.fn(() => context) });
+    vi.stubGlobal('document', { createElement: () => ({}) });
+    vi.stubGlobal('navigator', {});
+    vi.stubGlobal('AudioNode', class {});
+    vi.stubGlobal('AudioBuffer', class {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function assistant(): Promise<AudioPipeline> {
+    const pipeline = new AudioPipeline({ analysisWorklet: false });
+    await pipeline.initAssistant();
+    return pipeline;
+  }
+
+  it('holds chunks that arrive after pausing before any playback', async () => {
+    const pipeline = await assistant();
+    await pipeline.pausePlayback();
+    pipeline.processAudioStream(chunk(), format);
+
+    expect(context.sources.every(source => source.started === null)).toBe(true);
+    expect(pipeline.isPlaybackPaused()).toBe(true);
+    expect(pipeline.getBufferedDuration()).toBeCloseTo(100);
+
+    await pipeline.resumePlayback();
+    expect(context.sources.some(source => source.started !== null && !source.stopped)).toBe(true);
+  });
+
+  it('reports paused audio as not playing', async () => {
+    const pipeline = await assistant();
+    pipeline.processAudioStream(chunk(), format);
+    expect(pipeline.isPlaying()).toBe(true);
+
+    await pipeline.pausePlayback();
+    expect(pipeline.isPlaying()).toBe(false);
+    expect(pipeline.getQueueDepth()).toBe(1);
+
+    await pipeline.resumePlayback();
+    expect(pipeline.isPlaying()).toBe(true);
+  });
+
+  it('resumes from where playback was paused without suspending the context', async () => {
+    const pipeline = await assistant();
+    const suspend = vi.spyOn(context, 'suspend');
+    pipeline.processAudioStream(chunk(), format);
+
+    // Starts after the jitter buffer; pause 30 ms into the chunk
+    const startedAt = context.sources[0].started!;
+    context.currentTime = startedAt + 0.03;
+    await pipeline.pausePlayback();
+    expect(context.sources[0].stopped).toBe(true);
+    expect(pipeline.getBufferedDuration()).toBeCloseTo(70);
+
+    await pipeline.resumePlayback();
+    expect(pipeline.getBufferedDuration()).toBeGreaterThan(70);
+    expect(suspend).not.toHaveBeenCalled();
+  });
+});
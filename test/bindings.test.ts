@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { diffOptions } from '../src/core/bindings.js';
+import { VoiceOrb } from '../src/core/VoiceOrb.js';
+
+describe('diffOptions', () => {
+  const defaults = VoiceOrb.getDefaultOptions();
+
+  it('reports changed options only', () => {
+    expect(diffOptions({ radius: 40, color: '#fff' }, { radius: 50, color: '#fff' }, defaults)).toEqual({ radius: 50 });
+    expect(diffOptions({ radius: 40 }, { radius: 40 }, defaults)).toBeNull();
+  });
+
+  it('reverts removed options to their defaults', () => {
+    expect(diffOptions({ radius: 40 }, {}, defaults)).toEqual({ radius: defaults.radius });
+  });
+
+  it('compares arrays and plain objects by content', () => {
+    const stops = () => [{ offset: 0, color: '#000' }, { offset: 1, color: '#fff' }];
+    expect(diffOptions({ gradientStops: stops() }, { gradientStops: stops() }, defaults)).toBeNull();
+
+    const changed = [{ offset: 0, color: '#000' }, { offset: 1, color: '#f00' }];
+    expect(diffOptions({ gradientStops: stops() }, { gradientStops: changed }, defaults)).toEqual({ gradientStops: changed });
+  });
+
+  it('compares other objects by identity', () => {
+    const onError = () => {};
+    expect(diffOptions({ onError }, { onError }, defaults)).toBeNull();
+    expect(diffOptions({ onError }, { onError: () => {} }, defaults)).not.toBeNull();
+  });
+});
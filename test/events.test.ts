@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EventEmitter } from '../src/core/events.js';
+
+interface TestEvents {
+  ping: number;
+  pong: string;
+}
+
+describe('EventEmitter', () => {
+  it('calls once() listeners a single time', () => {
+    const events = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    events.once('ping', handler);
+    events.emit('ping', 1);
+    events.emit('ping', 2);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(1);
+    expect(events.hasListeners('ping')).toBe(false);
+  });
+
+  it('removes once() listeners with off()', () => {
+    const events = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    events.once('ping', handler);
+    events.off('ping', handler);
+    events.emit('ping', 1);
+    expect(handler).not.toHaveBeenCalled();
+    expect(events.hasListeners('ping')).toBe(false);
+  });
+
+  it('removes once() listeners with the returned function', () => {
+    const events = new EventEmitter<TestEvents>();
+    const handler = vi.fn();
+    const unsubscribe = events.once('ping', handler);
+    unsubscribe();
+    events.emit('ping', 1);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('removes on() listeners and leaves other events alone', () => {
+    const events = new EventEmitter<TestEvents>();
+    const ping = vi.fn();
+    const pong = vi.fn();
+    events.on('ping', ping);
+    events.on('pong', pong);
+    events.off('ping', ping);
+    events.emit('ping', 1);
+    events.emit('pong', 'a');
+    expect(ping).not.toHaveBeenCalled();
+    expect(pong).toHaveBeenCalledWith('a');
+  });
+
+  it('keeps calling listeners after one throws', () => {
+    const events = new EventEmitter<TestEvents>();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const handler = vi.fn();
+    events.on('ping', () => {
+      throw new Error('boom');
+    });
+    events.on('ping', handler);
+    events.emit('ping', 1);
+    expect(handler).toHaveBeenCalledWith(1);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
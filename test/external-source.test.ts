@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExternalSource } from '../src/core/external-source.js';
+
+describe('ExternalSource', () => {
+  beforeEach(() => {
+    // Samples are pruned against the current time
+    vi.spyOn(performance, 'now').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('interpolates between samples', () => {
+    const source = new ExternalSource({ timeoutMs: 500, delayMs: 0 });
+    source.setEnvelope([0, 1, 0.5], 10, 0);
+    expect(source.getVolume(50)).toBeCloseTo(0.5);
+    expect(source.getVolume(150)).toBeCloseTo(0.75);
+    expect(source.getVolume(200)).toBeCloseTo(0.5);
+  });
+
+  it('is silent before the first sample', () => {
+    const source = new ExternalSource({ timeoutMs: 500, delayMs: 0 });
+    source.push(0.8, 100);
+    expect(source.getVolume(50)).toBe(0);
+  });
+
+  it('ramps toward live pushes over the push interval', () => {
+    const source = new ExternalSource({ timeoutMs: 500, delayMs: 0 });
+    source.push(0, 0);
+    expect(source.getVolume(0)).toBe(0);
+    source.push(1, 100);
+    expect(source.getVolume(100)).toBe(0);
+    expect(source.getVolume(150)).toBeCloseTo(0.5);
+    expect(source.getVolume(200)).toBe(1);
+    expect(source.getVolume(300)).toBe(1);
+  });
+
+  it('interpolates live pushes between samples with a delay', () => {
+    const source = new ExternalSource({ timeoutMs: 500, delayMs: 100 });
+    source.push(0, 0);
+    source.push(1, 100);
+    expect(source.getVolume(150)).toBeCloseTo(0.5);
+  });
+
+  it('holds the last value until it goes stale', () => {
+    const source = new ExternalSource({ timeoutMs: 200, delayMs: 0 });
+    source.push(0.6, 0);
+    expect(source.getVolume(150)).toBe(0.6);
+    expect(source.getVolume(250)).toBe(0);
+  });
+
+  it('does not bridge gaps longer than the timeout', () => {
+    const source = new ExternalSource({ timeoutMs: 200, delayMs: 0 });
+    source.setEnvelope([0.4], 10, 0);
+    source.setEnvelope([0.8], 10, 1000);
+    expect(source.getVolume(100)).toBe(0.4);
+    expect(source.getVolume(500)).toBe(0);
+    expect(source.getVolume(1000)).toBe(0.8);
+  });
+
+  it('ignores non-finite pushes and rejects non-finite envelopes', () => {
+    const source = new ExternalSource({ timeoutMs: 500, delayMs: 0 });
+    source.push(0.5, 0);
+    source.push(NaN, 10);
+    source.push(1, Infinity);
+    expect(source.getVolume(20)).toBe(0.5);
+    expect(() => source.setEnvelope([0.2, NaN], 10, 0)).toThrow();
+    expect(() => source.setEnvelope([0.2], NaN, 0)).toThrow();
+  });
+});
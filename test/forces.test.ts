@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ForceSystem } from '../src/core/forces.js';
+
+// One audio-driven force at spawnAngle - SPAWN_SPREAD / 2, grown for 100 ms
+function spawnAt(angle: number): ForceSystem {
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  const forces = new ForceSystem();
+  forces.setSpawnAngle(angle);
+  forces.update(1, 0, 100);
+  expect(forces.getActiveCount()).toBe(1);
+  return forces;
+}
+
+function peakInfluence(forces: ForceSystem): number {
+  let peak = 0;
+  for (let i = 0; i < 360; i++) {
+    peak = Math.max(peak, forces.getInfluenceAt((i / 360) * Math.PI * 2));
+  }
+  return peak;
+}
+
+describe('ForceSystem.getInfluenceAt', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it.each([-Math.PI / 2, (3 * Math.PI) / 2])('wraps forces spawned at %f', (spawnAngle) => {
+    const forces = spawnAt(spawnAngle);
+    const peak = peakInfluence(forces);
+    expect(peak).toBeGreaterThan(0);
+
+    for (let i = -8; i <= 8; i++) {
+      const angle = (i / 8) * Math.PI * 2;
+      const influence = forces.getInfluenceAt(angle);
+      expect(influence).toBeGreaterThanOrEqual(0);
+      expect(influence).toBeLessThanOrEqual(peak + 1e-9);
+      expect(forces.getInfluenceAt(angle + Math.PI * 2)).toBeCloseTo(influence, 9);
+      expect(forces.getInfluenceAt(angle - Math.PI * 4)).toBeCloseTo(influence, 9);
+    }
+  });
+
+  it('pushes at the spawn side and not at the opposite one', () => {
+    const forces = spawnAt(-Math.PI / 2);
+    expect(forces.getInfluenceAt((3 * Math.PI) / 2 - 0.3)).toBeGreaterThan(0);
+    expect(forces.getInfluenceAt(Math.PI / 2)).toBe(0);
+  });
+});
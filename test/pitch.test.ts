@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { PitchDetector, normalizePitch } from '../src/core/pitch.js';
+
+// Just enough of an AnalyserNode for detect()
+function analyserOf(samples: Float32Array, sampleRate: number): AnalyserNode {
+  return {
+    fftSize: samples.length,
+    context: { sampleRate },
+    getFloatTimeDomainData: (target: Float32Array) => target.set(samples)
+  } as unknown as AnalyserNode;
+}
+
+function sine(frequency: number, sampleRate: number, length: number, amplitude: number = 0.5): Float32Array {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+}
+
+describe('PitchDetector', () => {
+  const detector = () => new PitchDetector({ minFrequency: 70, maxFrequency: 500, threshold: 0.15 });
+
+  it('finds the fundamental of a sine', () => {
+    const reading = detector().detect(analyserOf(sine(220, 16000, 2048), 16000));
+    expect(reading.voiced).toBe(true);
+    expect(reading.frequency).toBeCloseTo(220, 0);
+    expect(reading.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('finds the fundamental under stronger harmonics', () => {
+    const samples = sine(150, 16000, 2048, 0.2);
+    const harmonic = sine(300, 16000, 2048, 0.4);
+    samples.forEach((value, i) => { samples[i] = value + harmonic[i]; });
+    const reading = detector().detect(analyserOf(samples, 16000));
+    expect(reading.voiced).toBe(true);
+    expect(reading.frequency).toBeCloseTo(150, 0);
+  });
+
+  it('decimates high sample rates without shifting the estimate', () => {
+    const reading = detector().detect(analyserOf(sine(180, 48000, 4096), 48000));
+    expect(reading.frequency).toBeCloseTo(180, 0);
+  });
+
+  it('reports silence as unvoiced', () => {
+    const reading = detector().detect(analyserOf(new Float32Array(2048), 16000));
+    expect(reading).toEqual({ frequency: 0, confidence: 0, voiced: false });
+  });
+
+  it('reports noise as unvoiced', () => {
+    let seed = 1;
+    const noise = new Float32Array(2048).map(() => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647 - 0.5;
+    });
+    expect(detector().detect(analyserOf(noise, 16000)).voiced).toBe(false);
+  });
+});
+
+describe('normalizePitch', () => {
+  it('maps the range onto -1..1 on a log scale', () => {
+    expect(normalizePitch(100, 100, 400)).toBe(-1);
+    expect(normalizePitch(200, 100, 400)).toBeCloseTo(0);
+    expect(normalizePitch(400, 100, 400)).toBe(1);
+  });
+
+  it('clamps outside the range and treats no pitch as 0', () => {
+    expect(normalizePitch(50, 100, 400)).toBe(-1);
+    expect(normalizePitch(1000, 100, 400)).toBe(1);
+    expect(normalizePitch(0, 100, 400)).toBe(0);
+  });
+});
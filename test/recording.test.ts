@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { SessionPlayer, decodeRecording, encodeRecording } from '../src/core/recording.js';
+import { CalibrationData, OrbRecording } from '../src/types.js';
+
+const thresholds: CalibrationData = {
+  baseline: 0.02,
+  gain: 1.5,
+  sensitivity: 0.05,
+  loudThreshold: 0.3,
+  veryLoudThreshold: 0.6
+};
+
+// A 1 s ramp from 0 to 1 in 100 ms frames, speaking from 500 ms
+function ramp(): OrbRecording {
+  const time: number[] = [];
+  const volume: number[] = [];
+  for (let i = 0; i <= 10; i++) {
+    time.push(i * 100);
+    volume.push(i / 10);
+  }
+  return {
+    version: 1,
+    startedAt: 1700000000000,
+    duration: 1000,
+    frames: { time, volume, userShare: time.map(() => 0) },
+    thresholds: [{ time: 0, value: thresholds }],
+    modes: [{ time: 0, mode: 'microphone' }],
+    states: [{ time: 0, state: 'listening' }, { time: 500, state: 'speaking' }]
+  };
+}
+
+describe('SessionPlayer', () => {
+  it('interpolates between frames as it advances', () => {
+    const player = new SessionPlayer();
+    player.load(ramp());
+    expect(player.advance(250).volume).toBeCloseTo(0.25);
+    expect(player.advance(100).volume).toBeCloseTo(0.35);
+    expect(player.advance(0).thresholds).toEqual(thresholds);
+  });
+
+  it('scales elapsed time by speed', () => {
+    const player = new SessionPlayer();
+    player.load(ramp(), { speed: 2 });
+    player.advance(100);
+    expect(player.getPosition()).toBe(200);
+    player.setSpeed(0.5);
+    player.advance(100);
+    expect(player.getPosition()).toBe(250);
+  });
+
+  it('stops at the end once, without looping', () => {
+    const player = new SessionPlayer();
+    player.load(ramp());
+    expect(player.advance(1500).volume).toBe(1);
+    expect(player.getPosition()).toBe(1000);
+    expect(player.isPaused()).toBe(true);
+    expect(player.takeEnded()).toBe(true);
+    expect(player.takeEnded()).toBe(false);
+  });
+
+  it('wraps around when looping and replays states', () => {
+    const player = new SessionPlayer();
+    player.load(ramp(), { loop: true });
+    player.advance(600);
+    expect(player.takeStateChange()).toBe('speaking');
+    player.advance(600);
+    expect(player.getPosition()).toBe(200);
+    expect(player.takeEnded()).toBe(false);
+    expect(player.takeStateChange()).toBe('listening');
+  });
+
+  it('seeks within the recording and re-applies the state there', () => {
+    const player = new SessionPlayer();
+    player.load(ramp(), { paused: true });
+    player.seek(700);
+    expect(player.advance(100).volume).toBeCloseTo(0.7);
+    expect(player.takeStateChange()).toBe('speaking');
+    expect(player.takeStateChange()).toBeNull();
+    player.seek(5000);
+    expect(player.getPosition()).toBe(1000);
+    player.seek(-10);
+    expect(player.getPosition()).toBe(0);
+    expect(player.takeStateChange()).toBe('listening');
+  });
+
+  it('starts over when played from the end', () => {
+    const player = new SessionPlayer();
+    player.load(ramp(), { startAt: 1000, paused: true });
+    player.play();
+    expect(player.getPosition()).toBe(0);
+    expect(player.isPaused()).toBe(false);
+  });
+});
+
+describe('encodeRecording / decodeRecording', () => {
+  it('round-trips through the binary format', () => {
+    const recording = ramp();
+    const decoded = decodeRecording(encodeRecording(recording));
+    expect({ ...decoded, frames: undefined }).toEqual({ ...recording, frames: undefined });
+    expect(decoded.frames.time).toEqual(recording.frames.time);
+    decoded.frames.volume.forEach((value, i) => {
+      expect(value).toBeCloseTo(recording.frames.volume[i], 6);
+    });
+  });
+
+  it('accepts JSON text and the object itself', () => {
+    const recording = ramp();
+    expect(decodeRecording(JSON.stringify(recording))).toEqual(recording);
+    expect(decodeRecording(recording)).toBe(recording);
+  });
+
+  it('rejects other data', () => {
+    expect(() => decodeRecording(new ArrayBuffer(16))).toThrow('Not an orb recording');
+    expect(() => decodeRecording('{"version":2,"frames":{}}')).toThrow('Unsupported orb recording');
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// Only the bits of the DOM the element touches, installed before it loads
+vi.hoisted(() => {
+  class FakeElement {
+    private attributes = new Map<string, string>();
+    attachShadow() {
+      return { append() {} };
+    }
+    getAttribute(name: string) {
+      return this.attributes.get(name) ?? null;
+    }
+    hasAttribute(name: string) {
+      return this.attributes.has(name);
+    }
+    setAttribute(name: string, value: string) {
+      const previous = this.getAttribute(name);
+      this.attributes.set(name, value);
+      (this as any).attributeChangedCallback?.(name, previous, value);
+    }
+    dispatchEvent() {
+      return true;
+    }
+  }
+  (globalThis as any).HTMLElement = FakeElement;
+  (globalThis as any).document = { createElement: () => ({ setAttribute() {} }) };
+});
+
+// An orb whose starts finish only when the test says so
+const { FakeOrb } = vi.hoisted(() => {
+  class FakeOrb {
+    static instances: FakeOrb[] = [];
+    static getDefaultOptions() {
+      return {};
+    }
+    mode = 'stopped';
+    log: string[] = [];
+    private finish: (() => void) | null = null;
+    constructor() {
+      FakeOrb.instances.push(this);
+    }
+    on() {
+      return () => {};
+    }
+    getMode() {
+      return this.mode;
+    }
+    async stop() {
+      this.log.push('stop');
+      this.mode = 'stopped';
+    }
+    async destroy() {}
+    release() {
+      this.finish?.();
+      this.finish = null;
+    }
+    private begin(mode: string): Promise<void> {
+      if (this.finish) throw new Error('started twice at once');
+      this.log.push(mode);
+      return new Promise(resolve => {
+        this.finish = () => {
+          this.mode = mode;
+          resolve();
+        };
+      });
+    }
+    startMicrophone() {
+      return this.begin('microphone');
+    }
+    startAssistant() {
+      return this.begin('assistant');
+    }
+  }
+  return { FakeOrb };
+});
+
+vi.mock('../src/core/VoiceOrb.js', () => ({ VoiceOrb: FakeOrb }));
+
+const { VoiceOrbElement } = await import('../src/core/voice-orb-element.js');
+
+function connected() {
+  const element = new VoiceOrbElement();
+  element.connectedCallback();
+  return { element, orb: FakeOrb.instances[FakeOrb.instances.length - 1] };
+}
+
+// Let queued start()/stop() steps run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('VoiceOrbElement start/stop', () => {
+  it('restarts in a mode set while a start is pending, one start at a time', async () => {
+    const { element, orb } = connected();
+    const first = element.start();
+    await settle();
+    element.mode = 'assistant';
+    await settle();
+
+    orb.release();
+    await first;
+    await settle();
+    orb.release();
+    await settle();
+
+    expect(orb.log).toEqual(['microphone', 'stop', 'assistant']);
+    expect(orb.getMode()).toBe('assistant');
+  });
+
+  it('ends stopped when stop() is called during a pending start', async () => {
+    const { element, orb } = connected();
+    const starting = element.start();
+    await settle();
+    const stopping = element.stop();
+
+    orb.release();
+    await Promise.all([starting, stopping]);
+
+    expect(orb.getMode()).toBe('stopped');
+    element.mode = 'assistant';
+    await settle();
+    expect(orb.log).toEqual(['microphone', 'stop']);
+  });
+
+  it('skips a start superseded before it ran', async () => {
+    const { element, orb } = connected();
+    const first = element.start();
+    element.mode = 'assistant';
+    await settle();
+
+    orb.release();
+    await first;
+    expect(orb.log).toEqual(['assistant']);
+    expect(orb.getMode()).toBe('assistant');
+  });
+});